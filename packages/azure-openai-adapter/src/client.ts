@@ -51,6 +51,9 @@ export class OpenAIClient extends PlatformModelAndEmbeddingsClient<AzureOpenAICl
                                 ? ModelType.embeddings
                                 : ModelType.llm,
                         functionCall: llmType === 'LLM 大语言模型（函数调用）',
+                        imageInput:
+                            model.includes('vision') ||
+                            model.startsWith('gpt-4o'),
                         maxTokens: token ?? 4096,
                         supportMode: ['all']
                     } as ModelInfo
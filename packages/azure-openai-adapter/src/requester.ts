@@ -1,3 +1,4 @@
+import { AIMessageChunk } from '@langchain/core/messages'
 import { ChatGenerationChunk } from '@langchain/core/outputs'
 import {
     EmbeddingsRequester,
@@ -44,10 +45,7 @@ export class OpenAIRequester
                 `openai/deployments/${params.model}/chat/completions?api-version=${this._config.supportModels[params.model].modelVersion}`,
                 {
                     // model: params.model,
-                    messages: langchainMessageToOpenAIMessage(
-                        params.input,
-                        params.model
-                    ),
+                    messages: langchainMessageToOpenAIMessage(params.input),
                     tools:
                         params.tools != null
                             ? formatToolsToOpenAITools(params.tools)
@@ -99,8 +97,31 @@ export class OpenAIRequester
                         )
                     }
 
+                    const generationInfo =
+                        data.usage != null
+                            ? {
+                                  tokenUsage: {
+                                      promptTokens: data.usage.prompt_tokens,
+                                      completionTokens:
+                                          data.usage.completion_tokens,
+                                      totalTokens: data.usage.total_tokens
+                                  }
+                              }
+                            : undefined
+
                     const choice = data.choices?.[0]
                     if (!choice) {
+                        // 最后一个 chunk 可能只包含用量
+                        if (generationInfo != null) {
+                            yield new ChatGenerationChunk({
+                                message: new AIMessageChunk(
+                                    findTools ? '' : content
+                                ),
+                                text: findTools ? '' : content,
+                                generationInfo
+                            })
+                        }
+
                         continue
                     }
 
@@ -120,7 +141,8 @@ export class OpenAIRequester
 
                     const generationChunk = new ChatGenerationChunk({
                         message: messageChunk,
-                        text: messageChunk.content as string
+                        text: messageChunk.content as string,
+                        generationInfo
                     })
 
                     yield generationChunk
@@ -64,7 +64,11 @@ export class ClaudeClient extends PlatformModelClient {
                     model.includes('2.0') || model.includes('1.2')
                         ? 1000000
                         : 2000000,
-                type: ModelType.llm
+                type: ModelType.llm,
+                functionCall: model.startsWith('claude-3'),
+                structuredOutput: model.startsWith('claude-3'),
+                imageInput: model.startsWith('claude-3'),
+                supportMode: ['all']
             }
         })
     }
@@ -73,7 +77,7 @@ export class ClaudeClient extends PlatformModelClient {
         const info = this._models.find((m) => m.name === model)
         return new ChatLunaChatModel({
             requester: this._requester,
-            modelInfo: this._models[0],
+            modelInfo: info,
             model,
             maxTokenLimit: this._config.maxTokens,
             modelMaxContextSize: info.maxTokens ?? 100000,
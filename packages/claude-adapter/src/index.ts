@@ -42,6 +42,7 @@ export interface Config extends ChatLunaPlugin.Config {
     temperature: number
     presencePenalty: number
     frequencyPenalty: number
+    thinkingBudget: number
 }
 
 export const Config: Schema<Config> = Schema.intersect([
@@ -58,7 +59,8 @@ export const Config: Schema<Config> = Schema.intersect([
         maxTokens: Schema.number().min(16).max(200000).step(16).default(8000),
         temperature: Schema.percent().min(0).max(1).step(0.1).default(0.8),
         presencePenalty: Schema.number().min(-2).max(2).step(0.1).default(0.2),
-        frequencyPenalty: Schema.number().min(-2).max(2).step(0.1).default(0.2)
+        frequencyPenalty: Schema.number().min(-2).max(2).step(0.1).default(0.2),
+        thinkingBudget: Schema.number().min(0).max(128000).step(256).default(0)
     })
 ]).i18n({
     'zh-CN': require('./locales/zh-CN.schema.yml'),
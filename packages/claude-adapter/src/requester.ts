@@ -6,6 +6,7 @@ import {
 } from 'koishi-plugin-chatluna/llm-core/platform/api'
 import { ChatGenerationChunk } from '@langchain/core/outputs'
 import { ClientConfig } from 'koishi-plugin-chatluna/llm-core/platform/config'
+import { TokenUsage } from 'koishi-plugin-chatluna/llm-core/platform/types'
 import {
     ChatLunaError,
     ChatLunaErrorCode
@@ -13,8 +14,17 @@ import {
 import { Context } from 'koishi'
 import { sseIterable } from 'koishi-plugin-chatluna/utils/sse'
 import { Config } from '.'
-import { ClaudeDeltaResponse, ClaudeRequest } from './types'
-import { langchainMessageToClaudeMessage } from './utils'
+import {
+    ClaudeContentBlockStartEvent,
+    ClaudeDeltaResponse,
+    ClaudeMessageDeltaEvent,
+    ClaudeMessageStartEvent,
+    ClaudeRequest
+} from './types'
+import {
+    formatToolsToClaudeTools,
+    langchainMessageToClaudeMessage
+} from './utils'
 import { ChatLunaPlugin } from 'koishi-plugin-chatluna/services/chat'
 
 export class ClaudeRequester extends ModelRequester {
@@ -30,23 +40,80 @@ export class ClaudeRequester extends ModelRequester {
     async *completionStream(
         params: ModelRequestParams
     ): AsyncGenerator<ChatGenerationChunk> {
+        // 思考预算最少为 1024
+        const thinkingBudget =
+            (this._pluginConfig.thinkingBudget ?? 0) > 0
+                ? Math.max(this._pluginConfig.thinkingBudget, 1024)
+                : 0
+
+        const findTools =
+            params.responseFormat == null && params.tools?.length > 0
+
+        // 强制调用工具时不能开启思考
+        // 调用工具时需要回传带签名的思考块，暂不开启思考
+        const enableThinking =
+            thinkingBudget > 0 && params.responseFormat == null && !findTools
+
         const response = await this._post('messages', {
             model: params.model,
-            max_tokens: params.maxTokens ?? 4096,
-            temperature: params.temperature,
-            top_p: params.topP,
+            // 最大输出需要大于思考的预算
+            max_tokens: enableThinking
+                ? Math.max(params.maxTokens ?? 4096, thinkingBudget + 1024)
+                : (params.maxTokens ?? 4096),
+            // 开启思考时不支持修改采样参数
+            temperature: enableThinking ? undefined : params.temperature,
+            top_p: enableThinking ? undefined : params.topP,
+            thinking: enableThinking
+                ? { type: 'enabled', budget_tokens: thinkingBudget }
+                : undefined,
             stop_sequences:
                 typeof params.stop === 'string' ? [params.stop] : params.stop,
             stream: true,
-            messages: langchainMessageToClaudeMessage(
-                params.input,
-                params.model
-            )
+            messages: langchainMessageToClaudeMessage(params.input),
+            // Claude 没有原生的 JSON schema 输出，通过强制调用工具实现
+            tools:
+                params.responseFormat != null
+                    ? [
+                          {
+                              name: params.responseFormat.name,
+                              description:
+                                  'Respond with the structured output.',
+                              input_schema: params.responseFormat.schema
+                          }
+                      ]
+                    : findTools
+                      ? formatToolsToClaudeTools(params.tools)
+                      : undefined,
+            tool_choice:
+                params.responseFormat != null
+                    ? { type: 'tool', name: params.responseFormat.name }
+                    : findTools
+                      ? { type: 'auto' }
+                      : undefined
         } satisfies ClaudeRequest)
 
         const iterator = sseIterable(response)
 
         let content = ''
+        let reasoningContent = ''
+
+        // 块的序号到工具调用的映射，用于拼接 input_json_delta
+        const toolCallBlocks = new Map<number, number>()
+
+        const createMessageChunk = () =>
+            new AIMessageChunk({
+                content,
+                additional_kwargs:
+                    reasoningContent.length > 0
+                        ? { reasoning_content: reasoningContent }
+                        : {}
+            })
+
+        const tokenUsage: TokenUsage = {
+            promptTokens: 0,
+            completionTokens: 0,
+            totalTokens: 0
+        }
 
         for await (const event of iterator) {
             if (event.event === 'ping') continue
@@ -58,7 +125,64 @@ export class ClaudeRequester extends ModelRequester {
                 )
             }
 
-            if (event.event === 'message_stop') return
+            // 输入的用量在 message_start 中，输出的用量在 message_delta 中
+            if (event.event === 'message_start') {
+                const usage = (
+                    JSON.parse(event.data) as ClaudeMessageStartEvent
+                ).message.usage
+
+                tokenUsage.promptTokens = usage?.input_tokens ?? 0
+                continue
+            }
+
+            if (event.event === 'message_delta') {
+                const usage = (
+                    JSON.parse(event.data) as ClaudeMessageDeltaEvent
+                ).usage
+
+                tokenUsage.completionTokens = usage?.output_tokens ?? 0
+                continue
+            }
+
+            if (event.event === 'message_stop') {
+                tokenUsage.totalTokens =
+                    tokenUsage.promptTokens + tokenUsage.completionTokens
+
+                // 使用工具时块会被合并，最后只需要放入用量
+                yield new ChatGenerationChunk({
+                    message: findTools
+                        ? new AIMessageChunk('')
+                        : createMessageChunk(),
+                    text: findTools ? '' : content,
+                    generationInfo: { tokenUsage }
+                })
+
+                return
+            }
+
+            if (event.event === 'content_block_start' && findTools) {
+                const { index, content_block: block } = JSON.parse(
+                    event.data
+                ) as ClaudeContentBlockStartEvent
+
+                if (block.type !== 'tool_use') continue
+
+                const toolCallIndex = toolCallBlocks.size
+
+                toolCallBlocks.set(index, toolCallIndex)
+
+                yield new ChatGenerationChunk({
+                    message: createToolCallChunk({
+                        index: toolCallIndex,
+                        id: block.id,
+                        name: block.name,
+                        args: ''
+                    }),
+                    text: ''
+                })
+
+                continue
+            }
 
             const chunk = event.data
 
@@ -74,10 +198,45 @@ export class ClaudeRequester extends ModelRequester {
 
             const parsedChunk = JSON.parse(chunk) as ClaudeDeltaResponse
 
-            content += parsedChunk.delta.text
+            // 思考块的内容单独放在 reasoning_content 中
+            if (parsedChunk.delta.type === 'thinking_delta') {
+                reasoningContent += parsedChunk.delta.thinking ?? ''
+                continue
+            }
+
+            if (findTools) {
+                const toolCallIndex = toolCallBlocks.get(parsedChunk.index)
+
+                if (
+                    parsedChunk.delta.type === 'input_json_delta' &&
+                    toolCallIndex != null
+                ) {
+                    yield new ChatGenerationChunk({
+                        message: createToolCallChunk({
+                            index: toolCallIndex,
+                            args: parsedChunk.delta.partial_json ?? ''
+                        }),
+                        text: ''
+                    })
+
+                    continue
+                }
+
+                const text = parsedChunk.delta.text ?? ''
+
+                yield new ChatGenerationChunk({
+                    message: new AIMessageChunk(text),
+                    text
+                })
+
+                continue
+            }
+
+            content +=
+                parsedChunk.delta.text ?? parsedChunk.delta.partial_json ?? ''
 
             yield new ChatGenerationChunk({
-                message: new AIMessageChunk(content),
+                message: createMessageChunk(),
                 text: content
             })
         }
@@ -140,3 +299,36 @@ export class ClaudeRequester extends ModelRequester {
         return Promise.resolve(undefined)
     }
 }
+
+// 转换为 OpenAI 格式的工具调用增量，合并后交给 agent 解析
+function createToolCallChunk(toolCall: {
+    index: number
+    id?: string
+    name?: string
+    args: string
+}) {
+    return new AIMessageChunk({
+        content: '',
+        additional_kwargs: {
+            tool_calls: [
+                {
+                    index: toolCall.index,
+                    id: toolCall.id,
+                    type: toolCall.id != null ? 'function' : undefined,
+                    function: {
+                        name: toolCall.name,
+                        arguments: toolCall.args
+                    }
+                }
+            ]
+        },
+        tool_call_chunks: [
+            {
+                index: toolCall.index,
+                id: toolCall.id,
+                name: toolCall.name,
+                args: toolCall.args
+            }
+        ]
+    })
+}
@@ -7,39 +7,111 @@ export interface ClaudeRequest {
     stream?: boolean
     stop_sequences?: string[]
     messages: ClaudeMessage[]
+    tools?: ClaudeTool[]
+    tool_choice?: ClaudeToolChoice
+    thinking?: {
+        type: 'enabled'
+        budget_tokens: number
+    }
+}
+
+export interface ClaudeTool {
+    name: string
+    description?: string
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    input_schema: Record<string, any>
 }
 
+export type ClaudeToolChoice =
+    | { type: 'auto' }
+    | { type: 'any' }
+    | { type: 'tool'; name: string }
+
 export interface ClaudeMessage {
     role: string
-    content?:
-        | string
-        | (
-              | {
-                    type: 'text'
-                    text: string
-                }
-              | {
-                    type: 'image'
-                    source: {
-                        type: string
-                        media_type: string
-                        data: string
-                    }
-                }
-          )[]
+    content?: string | ClaudeContentBlock[]
 }
 
+export type ClaudeContentBlock =
+    | {
+          type: 'text'
+          text: string
+      }
+    | {
+          type: 'image'
+          source: {
+              type: string
+              media_type: string
+              data: string
+          }
+      }
+    | {
+          type: 'tool_use'
+          id: string
+          name: string
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          input: Record<string, any>
+      }
+    | {
+          type: 'tool_result'
+          tool_use_id: string
+          content: string
+      }
+
 export interface ClaudeDeltaResponse {
     type: string
     index: number
     delta: {
         type: string
-        text: string
+        text?: string
+        partial_json?: string
+        thinking?: string
+    }
+}
+
+export interface ClaudeContentBlockStartEvent {
+    type: 'content_block_start'
+    index: number
+    content_block: {
+        type: string
+        id?: string
+        name?: string
+    }
+}
+
+export interface ClaudeUsage {
+    input_tokens?: number
+    output_tokens?: number
+}
+
+export interface ClaudeMessageStartEvent {
+    type: 'message_start'
+    message: {
+        id: string
+        model: string
+        usage: ClaudeUsage
     }
 }
 
+export interface ClaudeMessageDeltaEvent {
+    type: 'message_delta'
+    delta: {
+        stop_reason?: string
+    }
+    usage: ClaudeUsage
+}
+
 export type ChatCompletionResponseMessageRoleEnum =
     | 'system'
     | 'assistant'
     | 'user'
     | 'function'
+
+export interface ChatCompletionMessageToolCall {
+    id: string
+    type: 'function'
+    function: {
+        name: string
+        arguments: string
+    }
+}
@@ -1,13 +1,34 @@
-import { BaseMessage, MessageType } from '@langchain/core/messages'
-import { ChatCompletionResponseMessageRoleEnum, ClaudeMessage } from './types'
+import { BaseMessage, MessageType, ToolMessage } from '@langchain/core/messages'
+import { StructuredTool } from '@langchain/core/tools'
+import { zodToJsonSchema } from 'zod-to-json-schema'
+import {
+    ChatCompletionMessageToolCall,
+    ChatCompletionResponseMessageRoleEnum,
+    ClaudeContentBlock,
+    ClaudeMessage,
+    ClaudeTool
+} from './types'
 
 export function langchainMessageToClaudeMessage(
-    messages: BaseMessage[],
-    model?: string
+    messages: BaseMessage[]
 ): ClaudeMessage[] {
     const result: ClaudeMessage[] = []
 
     const mappedMessage = messages.map((rawMessage) => {
+        // 工具的结果需要放在 user 消息的 tool_result 块中
+        if (rawMessage._getType() === 'tool') {
+            return {
+                role: 'user',
+                content: [
+                    {
+                        type: 'tool_result',
+                        tool_use_id: (rawMessage as ToolMessage).tool_call_id,
+                        content: rawMessage.content as string
+                    }
+                ]
+            } satisfies ClaudeMessage
+        }
+
         const images = rawMessage.additional_kwargs.images as string[] | null
 
         const result: ClaudeMessage = {
@@ -15,7 +36,8 @@ export function langchainMessageToClaudeMessage(
             content: rawMessage.content as string
         }
 
-        if (model.includes('claude-3') && images != null) {
+        // 模型是否支持图片由 ModelInfo.imageInput 决定，不支持时图片已被移除
+        if (images != null) {
             result.content = []
             for (const image of images) {
                 result.content.push({
@@ -34,12 +56,47 @@ export function langchainMessageToClaudeMessage(
             })
         }
 
+        const toolCalls = rawMessage.additional_kwargs
+            .tool_calls as ChatCompletionMessageToolCall[]
+
+        if (result.role === 'assistant' && toolCalls?.length > 0) {
+            const content: ClaudeContentBlock[] =
+                typeof result.content === 'string'
+                    ? result.content.length > 0
+                        ? [{ type: 'text', text: result.content }]
+                        : []
+                    : result.content
+
+            for (const toolCall of toolCalls) {
+                content.push({
+                    type: 'tool_use',
+                    id: toolCall.id,
+                    name: toolCall.function.name,
+                    input: parseToolArguments(toolCall.function.arguments)
+                })
+            }
+
+            result.content = content
+        }
+
         return result
     })
 
     for (let i = 0; i < mappedMessage.length; i++) {
         const message = mappedMessage[i]
 
+        // 连续的工具结果需要合并到同一条 user 消息中
+        if (isToolResultMessage(message)) {
+            const lastMessage = result[result.length - 1]
+
+            if (lastMessage != null && isToolResultMessage(lastMessage)) {
+                ;(lastMessage.content as ClaudeContentBlock[]).push(
+                    ...(message.content as ClaudeContentBlock[])
+                )
+                continue
+            }
+        }
+
         if (message.role !== 'system') {
             result.push(message)
             continue
@@ -77,6 +134,53 @@ export function langchainMessageToClaudeMessage(
     return result
 }
 
+export function formatToolsToClaudeTools(
+    tools: StructuredTool[]
+): ClaudeTool[] {
+    if (tools.length < 1) {
+        return undefined
+    }
+    return tools.map(formatToolToClaudeTool)
+}
+
+export function formatToolToClaudeTool(tool: StructuredTool): ClaudeTool {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const inputSchema = zodToJsonSchema(tool.schema as any)
+
+    delete inputSchema['$schema']
+
+    return {
+        name: tool.name,
+        description: tool.description,
+        input_schema: inputSchema
+    }
+}
+
+function parseToolArguments(args?: string) {
+    if (args == null || args.length < 1) {
+        return {}
+    }
+
+    try {
+        const result = JSON.parse(args)
+
+        return typeof result === 'object' && result != null
+            ? result
+            : { input: result }
+    } catch (e) {
+        return { input: args }
+    }
+}
+
+function isToolResultMessage(message: ClaudeMessage) {
+    return (
+        message.role === 'user' &&
+        Array.isArray(message.content) &&
+        message.content.length > 0 &&
+        message.content.every((block) => block.type === 'tool_result')
+    )
+}
+
 export function messageTypeToClaudeRole(
     type: MessageType
 ): ChatCompletionResponseMessageRoleEnum {
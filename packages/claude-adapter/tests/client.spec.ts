@@ -0,0 +1,81 @@
+import { expect } from 'chai'
+import { App, Context, Plugin } from 'koishi'
+import mock from '@koishijs/plugin-mock'
+import memory from '@koishijs/plugin-database-memory'
+import * as chatluna from 'koishi-plugin-chatluna'
+import * as claude from 'koishi-plugin-chatluna-claude-adapter'
+import { ChatLunaPluginChain } from 'koishi-plugin-chatluna/llm-core/chain/plugin_chat_chain'
+import { ModelType } from 'koishi-plugin-chatluna/llm-core/platform/types'
+import { ConversationRoom } from 'koishi-plugin-chatluna/types'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+describe('claude client', function () {
+    this.timeout(20000)
+
+    const model = 'claude/claude-3-haiku-20240307'
+
+    const app = new App()
+
+    app.baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chatluna-test-'))
+
+    app.plugin(mock)
+    app.plugin(memory)
+    // chatluna 的 inject 使用 koishi 加载器的格式，与 cordis 的类型不兼容
+    // 未填写的配置项由插件的 Schema 补全默认值
+    app.plugin(
+        chatluna as unknown as Plugin.Object<Context, chatluna.Config>,
+        {
+            defaultModel: model,
+            autoCreateRoomFromUser: false
+        } as chatluna.Config
+    )
+    app.plugin(claude, {
+        apiKeys: [['sk-test', 'https://api.anthropic.com/v1']]
+    } as claude.Config)
+
+    before(async () => {
+        await app.start()
+
+        // 等待适配器加载模型
+        for (let i = 0; i < 100; i++) {
+            const models = app.chatluna?.platform?.getAllModels(ModelType.llm)
+
+            if (models?.includes(model)) {
+                break
+            }
+
+            await new Promise((resolve) => setTimeout(resolve, 50))
+        }
+    })
+
+    after(async () => {
+        await app.stop()
+
+        fs.rmSync(app.baseDir, { recursive: true, force: true })
+    })
+
+    it('keeps the plugin mode of the room', async () => {
+        const room: ConversationRoom = {
+            visibility: 'private',
+            roomMasterId: '123',
+            roomName: 'claude',
+            roomId: 1,
+            conversationId: 'claude-plugin-mode',
+            preset: 'chatgpt',
+            model,
+            chatMode: 'plugin',
+            updatedTime: new Date()
+        }
+
+        const chatInterface = await app.chatluna
+            .queryInterfaceWrapper(room)
+            .query(room)
+
+        const [wrapper] = await chatInterface.createChatHubLLMChainWrapper()
+
+        expect(wrapper).to.be.instanceOf(ChatLunaPluginChain)
+        expect(chatInterface.chatMode).to.equal('plugin')
+    })
+})
@@ -4,7 +4,10 @@ import {
     ChatLunaError,
     ChatLunaErrorCode
 } from 'koishi-plugin-chatluna/utils/error'
-import { ChatHubAuthGroup, ChatHubAuthUser } from './types'
+import { parseRawModelName } from 'koishi-plugin-chatluna/llm-core/utils/count_tokens'
+import { TokenUsage } from 'koishi-plugin-chatluna/llm-core/platform/types'
+import { Config } from '../config'
+import { ChatHubAuthGroup, ChatHubAuthUser, ChatHubModelPrice } from './types'
 
 export class ChatLunaAuthService extends Service {
     constructor(
@@ -174,25 +177,109 @@ export class ChatLunaAuthService extends Service {
 
     async calculateBalance(
         session: Session,
-        platform: string,
-        usedTokenNumber: number,
+        model: string,
+        usage: number | TokenUsage,
         userId: string = session.userId
     ): Promise<number> {
         // TODO: use default balance checker
         // await this.getUser(session)
 
-        const currentAuthGroup = await this.resolveAuthGroup(
+        const usedBalance = await this.resolveCost(
             session,
-            platform,
+            model,
+            usage,
             userId
         )
 
+        return await this.modifyBalance(session, -usedBalance, userId)
+    }
+
+    async resolveCost(
+        session: Session,
+        model: string,
+        usage: number | TokenUsage,
+        userId: string = session.userId
+    ): Promise<number> {
+        // 未开启鉴权系统时，只使用全局价格表
+        const authGroup =
+            this.config.authSystem === true
+                ? await this.resolveAuthGroup(
+                      session,
+                      parseRawModelName(model)[0],
+                      userId
+                  )
+                : undefined
+
+        return this.calculateCost(authGroup, model, usage).toNumber()
+    }
+
+    calculateCost(
+        authGroup: ChatHubAuthGroup | undefined,
+        model: string,
+        usage: number | TokenUsage
+    ) {
+        const { promptTokens, completionTokens } =
+            typeof usage === 'number'
+                ? { promptTokens: usage, completionTokens: 0 }
+                : usage
+
+        const price = this.resolveModelPrice(authGroup, model)
+
         // 1k token per
-        const usedBalance = new Decimal(0.001)
-            .mul(currentAuthGroup.costPerToken)
-            .mul(usedTokenNumber)
+        return new Decimal(0.001)
+            .mul(price.input)
+            .mul(promptTokens)
+            .add(new Decimal(0.001).mul(price.output).mul(completionTokens))
+    }
+
+    resolveModelPrice(
+        authGroup: ChatHubAuthGroup | undefined,
+        model: string
+    ): ChatHubModelPrice {
+        // 优先使用配额组的覆盖价格，其次是全局价格表，最后回退到配额组的 token 费用
+        const groupPrice = authGroup?.modelPrices?.[model]
+
+        if (groupPrice != null) {
+            return groupPrice
+        }
+
+        const globalPrice = (
+            this.config.modelPrices as Config['modelPrices']
+        )?.find((price) => price.model === model)
+
+        if (globalPrice != null) {
+            return {
+                input: globalPrice.inputPrice,
+                output: globalPrice.outputPrice
+            }
+        }
 
-        return await this.modifyBalance(session, -usedBalance.toNumber())
+        return {
+            input: authGroup?.costPerToken ?? 0,
+            output: authGroup?.costPerToken ?? 0
+        }
+    }
+
+    async setModelPrice(
+        authGroup: ChatHubAuthGroup,
+        model: string,
+        price?: ChatHubModelPrice
+    ) {
+        const modelPrices = { ...(authGroup.modelPrices ?? {}) }
+
+        if (price == null) {
+            delete modelPrices[model]
+        } else {
+            modelPrices[model] = price
+        }
+
+        authGroup.modelPrices = modelPrices
+
+        await this.ctx.database.upsert('chathub_auth_group', [
+            { id: authGroup.id, modelPrices }
+        ])
+
+        return authGroup
     }
 
     async getBalance(
@@ -505,6 +592,10 @@ export class ChatLunaAuthService extends Service {
                     precision: 8,
                     scale: 4
                 },
+                modelPrices: {
+                    type: 'json',
+                    nullable: true
+                },
                 name: {
                     type: 'char',
                     length: 255
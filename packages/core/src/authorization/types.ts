@@ -13,6 +13,13 @@ export interface ChatHubAuthJoinedUser {
     id: number
 }
 
+export interface ChatHubModelPrice {
+    // 每 1000 token 的输入价格
+    input: number
+    // 每 1000 token 的输出价格
+    output: number
+}
+
 export type AuthType = 'guest' | 'user' | 'admin'
 
 export interface ChatHubAuthGroup {
@@ -25,6 +32,9 @@ export interface ChatHubAuthGroup {
 
     costPerToken: number
 
+    // 按模型覆盖的价格，key 为 platform/model
+    modelPrices?: Record<string, ChatHubModelPrice>
+
     currentLimitPerMin?: number
     currentLimitPerDay?: number
 
@@ -41,7 +41,7 @@ export class ChatChain {
             ctx: ctx ?? this.ctx,
             session,
             options: {},
-            send: (message) => this.sendMessage(session, message),
+            send: (message) => this.sendMessage(session, message, context),
             recallThinkingMessage: async () => {}
         }
 
@@ -83,7 +83,7 @@ export class ChatChain {
             ctx: this.ctx,
             session,
             command,
-            send: (message) => this.sendMessage(session, message),
+            send: (message) => this.sendMessage(session, message, context),
             recallThinkingMessage: async () => {},
             options
         }
@@ -131,6 +131,26 @@ export class ChatChain {
     private async _runMiddleware(
         session: Session,
         context: ChainMiddlewareContext
+    ) {
+        const result = await this._runMiddlewareList(session, context)
+
+        if (!result) {
+            // 出错或中途停止时，恢复中间件修改过的数据
+            for (const rollback of context.rollbacks ?? []) {
+                try {
+                    await rollback()
+                } catch (error) {
+                    logger.error(error)
+                }
+            }
+        }
+
+        return result
+    }
+
+    private async _runMiddlewareList(
+        session: Session,
+        context: ChainMiddlewareContext
     ) {
         // 手动 polyfill，呃呃呃呃呃
         if (session.isDirect == null) {
@@ -216,7 +236,7 @@ export class ChatChain {
                     context.message !== originMessage
                 ) {
                     // 消息被修改了
-                    await this.sendMessage(session, context.message)
+                    await this.sendMessage(session, context.message, context)
                 }
 
                 if (isOutputLog) {
@@ -235,7 +255,7 @@ export class ChatChain {
 
         if (context.message != null && context.message !== originMessage) {
             // 消息被修改了
-            await this.sendMessage(session, context.message)
+            await this.sendMessage(session, context.message, context)
         }
 
         return true
@@ -243,16 +263,29 @@ export class ChatChain {
 
     private async sendMessage(
         session: Session,
-        message: h[] | h[][] | h | string
+        message: h[] | h[][] | h | string,
+        context?: ChainMiddlewareContext
     ) {
         // check if message is a two-dimensional array
 
         const messages: (h[] | h | string)[] =
             message instanceof Array ? message : [message]
 
+        const messageIds: string[] = []
+
         for (const sender of this._senders) {
-            await sender(session, messages)
+            const ids = await sender(session, messages)
+
+            if (ids) {
+                messageIds.push(...ids)
+            }
+        }
+
+        for (const afterSend of context?.afterSends ?? []) {
+            await afterSend(messageIds)
         }
+
+        return messageIds
     }
 }
 
@@ -569,7 +602,7 @@ class DefaultChatChainSender {
                 throw new Error(`unknown message type: ${typeof messages[0]}`)
             }
 
-            await session.sendQueued(
+            return await session.sendQueued(
                 h(
                     'message',
                     {
@@ -578,10 +611,10 @@ class DefaultChatChainSender {
                     ...sendMessages
                 )
             )
-
-            return
         }
 
+        const messageIds: string[] = []
+
         for (const message of messages) {
             let messageFragment: h[]
 
@@ -619,8 +652,10 @@ class DefaultChatChainSender {
 
             messageFragment = this.processElements(messageFragment)
 
-            await session.sendQueued(messageFragment)
+            messageIds.push(...(await session.sendQueued(messageFragment)))
         }
+
+        return messageIds
     }
 }
 
@@ -632,7 +667,11 @@ export interface ChainMiddlewareContext {
     options?: ChainMiddlewareContextOptions
     command?: string
     recallThinkingMessage?: () => Promise<void>
-    send: (message: h[][] | h[] | h | string) => Promise<void>
+    send: (message: h[][] | h[] | h | string) => Promise<string[]>
+    // 出错或中途停止时调用
+    rollbacks?: (() => Promise<void>)[]
+    // 发送消息后调用，参数为发送的消息 id
+    afterSends?: ((messageIds: string[]) => Promise<void>)[]
 }
 
 export interface ChainMiddlewareContextOptions {
@@ -650,7 +689,7 @@ export type ChainMiddlewareFunction = (
 export type ChatChainSender = (
     session: Session,
     message: (h[] | h | string)[]
-) => Promise<void>
+) => Promise<string[] | void>
 
 export enum ChainMiddlewareRunStatus {
     SKIPPED = 0,
@@ -1,4 +1,4 @@
-import { randomInt } from 'crypto'
+import { randomInt, randomUUID } from 'crypto'
 import { $, Context, Session, User } from 'koishi'
 import { ModelType } from 'koishi-plugin-chatluna/llm-core/platform/types'
 import { parseRawModelName } from 'koishi-plugin-chatluna/llm-core/utils/count_tokens'
@@ -8,6 +8,7 @@ import {
 } from 'koishi-plugin-chatluna/utils/error'
 import { Config } from '../config'
 import { chunkArray } from '../llm-core/utils/chunk'
+import { ChatLunaMessage } from '../llm-core/memory/message/database_history'
 import { ConversationRoom, ConversationRoomGroupInfo } from '../types'
 
 export async function queryJoinedConversationRoom(
@@ -99,7 +100,9 @@ export async function checkConversationRoomAvailability(
 
     // check model
 
-    const [platformName, modelName] = parseRawModelName(room.model)
+    const [platformName, modelName] = parseRawModelName(
+        platformService.resolveModelAlias(room.model)[0]
+    )
 
     const platformModels = platformService.getModels(
         platformName,
@@ -121,6 +124,106 @@ export async function checkConversationRoomAvailability(
     return true
 }
 
+/**
+ * Apply the model requirements of the preset to the room.
+ * Switch to a required model or chat mode, and return the notices for the user.
+ */
+export async function applyPresetRequirements(
+    ctx: Context,
+    session: Session,
+    room: ConversationRoom
+): Promise<string[]> {
+    const platformService = ctx.chatluna.platform
+
+    const preset = await ctx.chatluna.preset.getPreset(
+        room.preset,
+        false,
+        false
+    )
+
+    if (preset == null) {
+        return []
+    }
+
+    const { modelConfig, chatMode } = preset
+    const presetName = preset.triggerKeyword[0]
+    const notices: string[] = []
+
+    const requiredModels = modelConfig?.requiredModels ?? []
+    const preferredModels = modelConfig?.preferredModels ?? []
+
+    // 别名指向的模型也视为匹配
+    const matchModel = (models: string[]) =>
+        models.includes(room.model) ||
+        models.includes(platformService.resolveModelAlias(room.model)[0])
+
+    if (requiredModels.length > 0 && !matchModel(requiredModels)) {
+        const availableModels = platformService.getAllModels(ModelType.llm)
+
+        const model = requiredModels.find((model) =>
+            availableModels.includes(model)
+        )
+
+        if (model == null) {
+            notices.push(
+                session.text('chatluna.preset_requirements.model_unavailable', [
+                    presetName,
+                    requiredModels.join(', ')
+                ])
+            )
+        } else {
+            room.model = model
+            notices.push(
+                session.text('chatluna.preset_requirements.model_switched', [
+                    presetName,
+                    model
+                ])
+            )
+        }
+    } else if (preferredModels.length > 0 && !matchModel(preferredModels)) {
+        notices.push(
+            session.text('chatluna.preset_requirements.model_not_preferred', [
+                presetName,
+                preferredModels.join(', ')
+            ])
+        )
+    }
+
+    if (modelConfig?.minContextSize != null) {
+        const [platformName, modelName] = parseRawModelName(
+            platformService.resolveModelAlias(room.model)[0]
+        )
+
+        const maxTokens = platformService.resolveModel(
+            platformName,
+            modelName
+        )?.maxTokens
+
+        if (maxTokens != null && maxTokens < modelConfig.minContextSize) {
+            notices.push(
+                session.text('chatluna.preset_requirements.context_too_small', [
+                    presetName,
+                    room.model,
+                    maxTokens,
+                    modelConfig.minContextSize
+                ])
+            )
+        }
+    }
+
+    if (chatMode != null && room.chatMode !== chatMode) {
+        room.chatMode = chatMode
+        notices.push(
+            session.text('chatluna.preset_requirements.chat_mode_switched', [
+                presetName,
+                chatMode
+            ])
+        )
+    }
+
+    return notices
+}
+
 export async function fixConversationRoomAvailability(
     ctx: Context,
     config: Config,
@@ -131,7 +234,9 @@ export async function fixConversationRoomAvailability(
 
     // check model
 
-    const [platformName, modelName] = parseRawModelName(room.model)
+    const [platformName, modelName] = parseRawModelName(
+        platformService.resolveModelAlias(room.model)[0]
+    )
 
     const platformModels = platformService.getModels(
         platformName,
@@ -195,6 +300,7 @@ export async function getTemplateConversationRoom(
         chatMode: config.defaultChatMode,
         password: '',
         model: config.defaultModel,
+        fallbackModels: config.defaultModelFallbacks ?? [],
         visibility: 'public',
         autoUpdate: true,
         updatedTime: new Date()
@@ -727,3 +833,108 @@ export async function createConversationRoom(
 
     await joinConversationRoom(ctx, session, room)
 }
+
+export async function getConversationMessages(
+    ctx: Context,
+    conversationId: string
+): Promise<ChatLunaMessage[]> {
+    const conversation = (
+        await ctx.database.get('chathub_conversation', {
+            id: conversationId
+        })
+    )?.[0]
+
+    if (conversation?.latestId == null) {
+        return []
+    }
+
+    const queried = await ctx.database.get('chathub_message', {
+        conversation: conversationId
+    })
+
+    const messages: ChatLunaMessage[] = []
+
+    let currentMessageId = conversation.latestId
+
+    // 从最新的消息沿着 parent 往回找，得到从旧到新的消息链
+    while (currentMessageId != null) {
+        const currentMessage = queried.find(
+            (item) => item.id === currentMessageId
+        )
+
+        if (currentMessage == null) {
+            break
+        }
+
+        messages.unshift(currentMessage)
+
+        currentMessageId = currentMessage.parent
+    }
+
+    return messages
+}
+
+// 编辑或删除消息后，下次加载对话时根据全部聊天记录重新生成总结
+export async function outdateConversationSummary(
+    ctx: Context,
+    conversationId: string
+) {
+    const conversation = (
+        await ctx.database.get('chathub_conversation', {
+            id: conversationId
+        })
+    )?.[0]
+
+    const additionalKwargs = JSON.parse(conversation?.additional_kwargs ?? '{}')
+
+    additionalKwargs.summaryOutdated = 'true'
+
+    await ctx.database.upsert('chathub_conversation', [
+        {
+            id: conversationId,
+            additional_kwargs: JSON.stringify(additionalKwargs)
+        }
+    ])
+}
+
+export async function createConversationWithMessages(
+    ctx: Context,
+    conversationId: string,
+    messages: Pick<
+        ChatLunaMessage,
+        'text' | 'role' | 'additional_kwargs' | 'rawId'
+    >[],
+    additionalKwargs?: string
+) {
+    // 重新生成消息 id 并按顺序重建 parent 链，避免和已有的消息冲突
+    let parent: string = null
+
+    const copiedMessages: ChatLunaMessage[] = messages.map((message) => {
+        const id = randomUUID()
+
+        const result: ChatLunaMessage = {
+            id,
+            text: message.text,
+            parent,
+            role: message.role,
+            additional_kwargs: message.additional_kwargs ?? null,
+            rawId: message.rawId ?? null,
+            conversation: conversationId
+        }
+
+        parent = id
+
+        return result
+    })
+
+    if (copiedMessages.length > 0) {
+        await ctx.database.upsert('chathub_message', copiedMessages)
+    }
+
+    await ctx.database.create('chathub_conversation', {
+        id: conversationId,
+        latestId: parent,
+        additional_kwargs: additionalKwargs ?? null,
+        updatedAt: new Date()
+    })
+}
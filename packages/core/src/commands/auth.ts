@@ -79,6 +79,20 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
             })
         })
 
+    ctx.command(
+        'chatluna.auth.price <name:string> <model:string> [input:number] [output:number]',
+        { authority: 3 }
+    ).action(async ({ session }, name, model, input, output) => {
+        await chain.receiveCommand(session, 'set_auth_group_price', {
+            auth_group_resolve: { name },
+            authModelPrice: {
+                model,
+                input,
+                output
+            }
+        })
+    })
+
     ctx.command('chatluna.balance')
 
     ctx.command('chatluna.balance.clear <user:user>', { authority: 3 }).action(
@@ -1,7 +1,9 @@
-import { Context } from 'koishi'
+import { Context, Session } from 'koishi'
 import { Config } from '../config'
 import { ChatChain } from '../chains/chain'
 import { RenderType } from '../types'
+import { getAllJoinedConversationRoom } from '../chains/rooms'
+import { getReplyMessage } from '../middlewares/request_model'
 
 export function apply(ctx: Context, config: Config, chain: ChatChain) {
     ctx.command('chatluna', {
@@ -43,6 +45,71 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
             })
         })
 
+    ctx.command('chatluna.chat.delete <id:string>')
+        .option('room', '-r <room:string>')
+        .action(async ({ options, session }, id) => {
+            await chain.receiveCommand(session, 'delete_message', {
+                messageId: id,
+                room_resolve: {
+                    name: options.room
+                }
+            })
+        })
+
+    ctx.command('chatluna.chat.edit <id:string> <text:text>')
+        .option('room', '-r <room:string>')
+        .action(async ({ options, session }, id, text) => {
+            await chain.receiveCommand(session, 'edit_message', {
+                messageId: id,
+                messageText: text,
+                room_resolve: {
+                    name: options.room
+                }
+            })
+        })
+
+    ctx.command('chatluna.chat.history [room:string]')
+        .option('page', '-p <page:number>')
+        .option('limit', '-l <limit:number>')
+        .action(async ({ options, session }, room) => {
+            await chain.receiveCommand(session, 'chat_history', {
+                page: options.page ?? 1,
+                limit: options.limit ?? 10,
+                room_resolve: {
+                    name: room
+                }
+            })
+        })
+
+    ctx.command('chatluna.chat.queue [room:string]', { authority: 3 })
+        .option('cancel', '-c <requestId:string>')
+        .option('page', '-p <page:number>')
+        .option('limit', '-l <limit:number>')
+        .action(async ({ options, session }, room) => {
+            await chain.receiveCommand(session, 'chat_queue', {
+                page: options.page ?? 1,
+                limit: options.limit ?? 10,
+                cancelRequestId: options.cancel,
+                room_resolve: {
+                    name: room
+                }
+            })
+        })
+
+    ctx.command('chatluna.chat.regenerate')
+        .option('room', '-r <room:string>')
+        .action(async ({ options, session }) => {
+            await chain.receiveCommand(session, 'regenerate', {
+                room_resolve: {
+                    name: options.room
+                },
+                renderOptions: {
+                    split: config.splitMessage,
+                    type: config.outputMode as RenderType
+                }
+            })
+        })
+
     ctx.command('chatluna.chat.rollback [message:text]')
         .option('room', '-r <room:string>')
         .action(async ({ options, session }, message) => {
@@ -68,6 +135,17 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
             })
         })
 
+    ctx.command('chatluna.chat.swipe <index:number>')
+        .option('room', '-r <room:string>')
+        .action(async ({ options, session }, index) => {
+            await chain.receiveCommand(session, 'swipe', {
+                swipeIndex: index,
+                room_resolve: {
+                    name: options.room
+                }
+            })
+        })
+
     ctx.command('chatluna.chat.voice <message:text>')
         .option('room', '-r <room:string>')
         .option('speaker', '-s <speakerId:number>', { authority: 1 })
@@ -92,4 +170,65 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
             await chain.receiveCommand(session, 'wipe')
         }
     )
+
+    // 只有回复对应当前对话的最后一条 AI 消息时才重新生成
+    const regenerate = async (session: Session, messageId: string) => {
+        const reply = getReplyMessage(session, messageId)
+
+        if (reply?.messageId == null) {
+            return false
+        }
+
+        const [conversation] = await ctx.database.get(
+            'chathub_conversation',
+            reply.conversationId
+        )
+
+        if (conversation?.latestId !== reply.messageId) {
+            return false
+        }
+
+        const room = (await getAllJoinedConversationRoom(ctx, session)).find(
+            (room) => room.conversationId === reply.conversationId
+        )
+
+        if (room == null) {
+            return false
+        }
+
+        await chain.receiveCommand(session, 'regenerate', {
+            room_resolve: {
+                name: String(room.roomId)
+            },
+            renderOptions: {
+                split: config.splitMessage,
+                type: config.outputMode as RenderType
+            }
+        })
+
+        return true
+    }
+
+    // 引用 bot 的回复并发送关键词时重新生成
+    ctx.middleware(async (session, next) => {
+        if (
+            config.regenerateKeywords.length < 1 ||
+            session.quote?.id == null ||
+            !config.regenerateKeywords.includes(session.stripped.content.trim())
+        ) {
+            return next()
+        }
+
+        if (!(await regenerate(session, session.quote.id))) {
+            return next()
+        }
+    }, true)
+
+    ctx.on('reaction-added', async (session) => {
+        if (!config.regenerateOnReaction || session.userId === session.selfId) {
+            return
+        }
+
+        await regenerate(session, session.messageId)
+    })
 }
@@ -7,6 +7,8 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
 
     ctx.command('chatluna.vectorstore', { authority: 1 })
 
+    ctx.command('chatluna.providers', { authority: 3 })
+
     ctx.command('chatluna.embeddings.list')
         .option('page', '-p <page:number>')
         .option('limit', '-l <limit:number>')
@@ -27,6 +29,16 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
             })
         })
 
+    ctx.command('chatluna.providers.status')
+        .option('page', '-p <page:number>')
+        .option('limit', '-l <limit:number>')
+        .action(async ({ options, session }) => {
+            await chain.receiveCommand(session, 'provider_status', {
+                page: options.page ?? 1,
+                limit: options.limit ?? 5
+            })
+        })
+
     ctx.command('chatluna.embeddings.set <embeddings:string>', {
         authority: 3
     }).action(async ({ session }, embeddings) => {
@@ -1,6 +1,7 @@
 import { Context } from 'koishi'
 import { Config } from '../config'
 import { ChatChain } from '../chains/chain'
+import { ModelGenerationParams } from 'koishi-plugin-chatluna/llm-core/platform/types'
 
 export function apply(ctx: Context, config: Config, chain: ChatChain) {
     ctx.command('chatluna.room')
@@ -113,6 +114,15 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
         .option('chatMode', '-c <chatMode:string>')
         .option('password', '-w <password:string>')
         .option('visibility', '-v <visibility:string>')
+        .option('fallbackModels', '-f <fallbackModels:string>')
+        .option('temperature', '-t <temperature:number>')
+        .option('topP', '<topP:number>')
+        .option('maxTokens', '<maxTokens:number>')
+        .option('frequencyPenalty', '<frequencyPenalty:number>')
+        .option('presencePenalty', '<presencePenalty:number>')
+        .option('stop', '<stop:string>')
+        .option('resetParams', '-r')
+        .option('reasoning', '<reasoning:string>')
         .action(async ({ session, options }) => {
             await chain.receiveCommand(session, 'set_room', {
                 room_resolve: {
@@ -121,11 +131,52 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
                     model: options.model ?? undefined,
                     chatMode: options.chatMode ?? undefined,
                     password: options.password ?? undefined,
-                    visibility: options.visibility ?? undefined
+                    visibility: options.visibility ?? undefined,
+                    fallbackModels:
+                        options.fallbackModels != null
+                            ? parseFallbackModels(options.fallbackModels)
+                            : undefined,
+                    modelParams: parseModelParams(options),
+                    resetModelParams: options.resetParams ? true : undefined,
+                    reasoningDisplayMode: options.reasoning ?? undefined
                 }
             })
         })
 
+    ctx.command('chatluna.room.export [room:text]')
+        .option('format', '-f <format:string>')
+        .action(async ({ session, options }, room) => {
+            await chain.receiveCommand(session, 'export_room', {
+                room_resolve: {
+                    name: room
+                },
+                exportFormat: options.format ?? 'json'
+            })
+        })
+
+    ctx.command('chatluna.room.fork [room:text]')
+        .option('at', '-a <at:number>')
+        .option('name', '-n <name:string>')
+        .action(async ({ session, options }, room) => {
+            await chain.receiveCommand(session, 'fork_room', {
+                room_resolve: {
+                    name: room
+                },
+                forkAtMessage: options.at,
+                forkRoomName: options.name
+            })
+        })
+
+    ctx.command('chatluna.room.import [name:text]').action(
+        async ({ session }, name) => {
+            await chain.receiveCommand(session, 'import_room', {
+                room_resolve: {
+                    name
+                }
+            })
+        }
+    )
+
     ctx.command('chatluna.room.list')
         .option('page', '-p <page:number>')
         .option('limit', '-l <limit:number>')
@@ -190,3 +241,44 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
             })
         })
 }
+
+function parseFallbackModels(input: string) {
+    if (input.trim().toLowerCase() === 'none') {
+        return []
+    }
+
+    return input
+        .split(/->|,/)
+        .map((model) => model.trim())
+        .filter((model) => model.length > 0)
+}
+
+function parseModelParams(options: {
+    temperature?: number
+    topP?: number
+    maxTokens?: number
+    frequencyPenalty?: number
+    presencePenalty?: number
+    stop?: string
+}): ModelGenerationParams {
+    const params: ModelGenerationParams = {
+        temperature: options.temperature,
+        topP: options.topP,
+        maxTokens: options.maxTokens,
+        frequencyPenalty: options.frequencyPenalty,
+        presencePenalty: options.presencePenalty,
+        stop:
+            options.stop != null
+                ? options.stop.trim().toLowerCase() === 'none'
+                    ? []
+                    : options.stop
+                          .split(',')
+                          .map((stop) => stop.trim())
+                          .filter((stop) => stop.length > 0)
+                : undefined
+    }
+
+    return Object.values(params).some((value) => value != null)
+        ? params
+        : undefined
+}
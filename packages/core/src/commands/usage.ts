@@ -0,0 +1,24 @@
+import { Context } from 'koishi'
+import { Config } from '../config'
+import { ChatChain } from '../chains/chain'
+
+export function apply(ctx: Context, config: Config, chain: ChatChain) {
+    ctx.command('chatluna.usage [groupBy:string]', { authority: 3 })
+        .option('days', '-d <days:number>')
+        .option('user', '-u <user:user>')
+        .option('room', '-r <room:number>')
+        .option('page', '-p <page:number>')
+        .option('limit', '-l <limit:number>')
+        .action(async ({ session, options }, groupBy) => {
+            await chain.receiveCommand(session, 'query_usage', {
+                usageQuery: {
+                    groupBy: groupBy ?? 'user',
+                    days: options.days ?? 30,
+                    userId: options.user?.split(':')?.[1],
+                    roomId: options.room
+                },
+                page: options.page ?? 1,
+                limit: options.limit ?? 5
+            })
+        })
+}
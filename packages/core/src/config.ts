@@ -6,7 +6,10 @@ export interface Config {
     allowPrivate: boolean
     isForwardMsg: boolean
     allowChatWithRoomName: boolean
+    regenerateOnReaction: boolean
+    regenerateKeywords: string[]
     msgCooldown: number
+    maxQueueSize: number
     randomReplyFrequency: number
     messageCount: number
     isLog: boolean
@@ -18,6 +21,7 @@ export interface Config {
     sendThinkingMessage: boolean
     sendThinkingMessageTimeout: number
     showThoughtMessage: boolean
+    reasoningDisplayMode: string
     splitMessage: boolean
     blackList: Computed<Awaitable<boolean>>
     censor: boolean
@@ -35,18 +39,39 @@ export interface Config {
 
     defaultChatMode: string
     defaultModel: string
+    defaultModelFallbacks: string[]
+    imageCaptionModel: string
     defaultPreset: string
+    modelAliases: {
+        name: string
+        model: string
+        temperature?: number
+        topP?: number
+        maxTokens?: number
+        stop?: string[]
+        frequencyPenalty?: number
+        presencePenalty?: number
+    }[]
 
     autoCreateRoomFromUser: boolean
 
     authUserDefaultGroup: Computed<Awaitable<[number, number, string]>>
     authSystem: boolean
+    modelPrices: {
+        model: string
+        inputPrice: number
+        outputPrice: number
+    }[]
 
     voiceSpeakId: number
 
     longMemorySimilarity: number
     longMemoryInterval: number
     longMemoryExtractModel: string
+
+    fileInput: boolean
+    fileInputMaxSize: number
+    fileInputInlineLength: number
 }
 
 export const Config: Schema<Config> = Schema.intersect([
@@ -62,6 +87,11 @@ export const Config: Schema<Config> = Schema.intersect([
         isForwardMsg: Schema.boolean().default(false),
         privateChatWithoutCommand: Schema.boolean().default(true),
         allowChatWithRoomName: Schema.boolean().default(false),
+        regenerateOnReaction: Schema.boolean().default(false),
+        regenerateKeywords: Schema.array(Schema.string()).default([
+            '重新生成',
+            'regenerate'
+        ]),
         randomReplyFrequency: Schema.percent()
             .min(0)
             .max(1)
@@ -73,7 +103,13 @@ export const Config: Schema<Config> = Schema.intersect([
         sendThinkingMessage: Schema.boolean().default(true),
         sendThinkingMessageTimeout: Schema.number().default(15000),
         msgCooldown: Schema.number().min(0).max(3600).step(1).default(0),
-        showThoughtMessage: Schema.boolean().default(false)
+        maxQueueSize: Schema.number().min(1).max(1000).step(1).default(50),
+        showThoughtMessage: Schema.boolean().default(false),
+        reasoningDisplayMode: Schema.union([
+            Schema.const('collapsed'),
+            Schema.const('separate'),
+            Schema.const('hidden')
+        ]).default('hidden')
     }),
 
     Schema.object({
@@ -100,6 +136,15 @@ export const Config: Schema<Config> = Schema.intersect([
         longMemoryExtractModel: Schema.dynamic('model').default('无')
     }),
 
+    Schema.object({
+        fileInput: Schema.boolean().default(false),
+        fileInputMaxSize: Schema.number().min(1).max(20480).default(2048),
+        fileInputInlineLength: Schema.number()
+            .min(500)
+            .max(100000)
+            .default(8000)
+    }),
+
     Schema.object({
         messageCount: Schema.number()
             .role('slider')
@@ -126,7 +171,23 @@ export const Config: Schema<Config> = Schema.intersect([
         autoCreateRoomFromUser: Schema.boolean().default(false),
         defaultChatMode: Schema.dynamic('chat-mode').default('chat'),
         defaultModel: Schema.dynamic('model').default('无'),
-        defaultPreset: Schema.dynamic('preset').default('chatgpt')
+        defaultModelFallbacks: Schema.array(Schema.dynamic('model')).default(
+            []
+        ),
+        imageCaptionModel: Schema.dynamic('model').default('无'),
+        defaultPreset: Schema.dynamic('preset').default('chatgpt'),
+        modelAliases: Schema.array(
+            Schema.object({
+                name: Schema.string().required(),
+                model: Schema.dynamic('model').required(),
+                temperature: Schema.number().min(0).max(2).step(0.1),
+                topP: Schema.number().min(0).max(1).step(0.05),
+                maxTokens: Schema.number().min(1),
+                stop: Schema.array(Schema.string()).default([]),
+                frequencyPenalty: Schema.number().min(-2).max(2).step(0.1),
+                presencePenalty: Schema.number().min(-2).max(2).step(0.1)
+            })
+        ).default([])
     }),
 
     Schema.object({
@@ -159,7 +220,17 @@ export const Config: Schema<Config> = Schema.intersect([
                 .default([0, 1.0, 'guest'])
         }),
         Schema.object({})
-    ])
+    ]),
+
+    Schema.object({
+        modelPrices: Schema.array(
+            Schema.object({
+                model: Schema.string().required(),
+                inputPrice: Schema.number().min(0).default(0),
+                outputPrice: Schema.number().min(0).default(0)
+            }).role('table')
+        ).default([])
+    })
 ]).i18n({
     'zh-CN': require('./locales/zh-CN.schema'),
     'en-US': require('./locales/en-US.schema')
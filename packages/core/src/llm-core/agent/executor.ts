@@ -17,7 +17,7 @@ import {
     Callbacks
 } from '@langchain/core/callbacks/manager'
 import { OutputParserException } from '@langchain/core/output_parsers'
-import { StoppingMethod } from './types.js'
+import { StoppingMethod } from './types'
 import {
     AgentRunnableSequence,
     BaseMultiActionAgent,
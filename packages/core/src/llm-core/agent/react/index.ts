@@ -0,0 +1,147 @@
+import {
+    AIMessage,
+    BaseMessage,
+    HumanMessage,
+    SystemMessage
+} from '@langchain/core/messages'
+import {
+    ChatPromptTemplate,
+    MessagesPlaceholder
+} from '@langchain/core/prompts'
+import { RunnableLambda, RunnablePassthrough } from '@langchain/core/runnables'
+import { StructuredTool } from '@langchain/core/tools'
+import { AgentStep } from '@langchain/core/agents'
+import { ChainValues } from '@langchain/core/utils/types'
+import { zodToJsonSchema } from 'zod-to-json-schema'
+import { SystemPrompts } from '../../chain/base'
+import { ChatLunaChatModel } from '../../platform/model'
+import { getMessageContent } from 'koishi-plugin-chatluna/utils/string'
+import { AgentRunnableSequence } from '../agent'
+import { ReActAgentOutputParser } from './output_parser'
+import { TOOL_RESULT_START, TOOLS_PROMPT } from './prompt'
+
+/**
+ * Params used by the createReActAgent function.
+ */
+export type CreateReActAgentParams = {
+    /**
+     * LLM to use as the agent. The tools are described in the prompt,
+     * so the model does not need to support function calling.
+     */
+    llm: ChatLunaChatModel
+    /** Tools this agent has access to. */
+    tools: StructuredTool[]
+    /** The preset messages, the tool instructions will be added to it. */
+    preset: Promise<SystemPrompts>
+}
+
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export function _formatReActSteps(
+    intermediateSteps: AgentStep[]
+): BaseMessage[] {
+    return intermediateSteps.flatMap(({ action, observation }) => {
+        // 解析失败时，observation 是给模型的修正提示
+        if (action.tool === '_Exception') {
+            return [new AIMessage(action.log), new HumanMessage(observation)]
+        }
+
+        return [
+            new AIMessage(action.log),
+            new HumanMessage(
+                `${TOOL_RESULT_START} name="${action.tool}">\n${observation}\n</tool_result>`
+            )
+        ]
+    })
+}
+
+export function createReActAgent({
+    llm,
+    tools,
+    preset
+}: CreateReActAgentParams) {
+    const prompt = ChatPromptTemplate.fromMessages([
+        new MessagesPlaceholder('preset'),
+        new MessagesPlaceholder('chat_history'),
+        new MessagesPlaceholder('input'),
+        new MessagesPlaceholder('agent_scratchpad')
+    ])
+
+    // 避免模型自己编造工具的结果
+    const llmWithStop = llm.bind({
+        stop: [TOOL_RESULT_START]
+    })
+
+    const outputParser = new ReActAgentOutputParser()
+
+    const toolsPrompt = formatToolsPrompt(tools)
+
+    return AgentRunnableSequence.fromRunnables(
+        [
+            RunnablePassthrough.assign({
+                // eslint-disable-next-line @typescript-eslint/naming-convention
+                agent_scratchpad: (input: { steps: AgentStep[] }) =>
+                    _formatReActSteps(input.steps),
+                preset: () =>
+                    preset.then((messages) =>
+                        addToolsPrompt(messages, toolsPrompt)
+                    )
+            }),
+            // 模型是否流式输出由调用时的 stream 参数决定
+            RunnableLambda.from(
+                async (
+                    input: ChainValues & { stream?: boolean },
+                    config
+                ): Promise<BaseMessage> =>
+                    llmWithStop.invoke(await prompt.invoke(input, config), {
+                        ...config,
+                        stream: input.stream
+                    })
+            ),
+            RunnableLambda.from((input: BaseMessage) =>
+                outputParser.parse(getMessageContent(input.content))
+            )
+        ],
+        {
+            singleAction: true,
+            // 未绑定工具时，模型流式输出的块是累计的内容，不能直接合并
+            streamRunnable: false
+        }
+    )
+}
+
+function formatToolsPrompt(tools: StructuredTool[]) {
+    const formattedTools = tools
+        .map((tool) => {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const parameters = zodToJsonSchema(tool.schema as any)
+
+            delete parameters['$schema']
+            delete parameters['additionalProperties']
+
+            return `- ${tool.name}: ${tool.description}\n  parameters: ${JSON.stringify(parameters)}`
+        })
+        .join('\n')
+
+    const toolNames = tools.map((tool) => tool.name).join(', ')
+
+    return TOOLS_PROMPT.replace('{tools}', () => formattedTools).replace(
+        '{tool_names}',
+        () => toolNames
+    )
+}
+
+// 工具说明合并到第一条系统消息中，避免在裁剪上下文时被丢弃
+function addToolsPrompt(messages: SystemPrompts, toolsPrompt: string) {
+    const [first, ...rest] = messages ?? []
+
+    if (first == null || first._getType() !== 'system') {
+        return [new SystemMessage(toolsPrompt), ...(messages ?? [])]
+    }
+
+    return [
+        new SystemMessage(
+            getMessageContent(first.content) + '\n\n' + toolsPrompt
+        ),
+        ...rest
+    ]
+}
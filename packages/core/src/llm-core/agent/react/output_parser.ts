@@ -0,0 +1,109 @@
+import { AgentAction, AgentFinish } from '@langchain/core/agents'
+import { OutputParserException } from '@langchain/core/output_parsers'
+import { AgentActionOutputParser } from '../types'
+import { FORMAT_ERROR_PROMPT, TOOL_CALL_END, TOOL_CALL_START } from './prompt'
+
+/**
+ * Output parser for agents that describe tools in the prompt.
+ * The model calls a tool by writing a JSON object inside a `<tool_call>` block,
+ * any other response is treated as the final answer.
+ */
+export class ReActAgentOutputParser extends AgentActionOutputParser {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    lc_namespace = ['langchain', 'agents', 'react']
+
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    static lc_name() {
+        return 'ReActAgentOutputParser'
+    }
+
+    async parse(text: string): Promise<AgentAction | AgentFinish> {
+        const startIndex = text.indexOf(TOOL_CALL_START)
+
+        if (startIndex === -1) {
+            return {
+                returnValues: { output: text.trim() },
+                log: text
+            }
+        }
+
+        // 设置了停止词时可能没有结束标签
+        let endIndex = text.indexOf(TOOL_CALL_END, startIndex)
+
+        if (endIndex === -1) {
+            endIndex = text.length
+        }
+
+        const rawToolCall = text
+            .slice(startIndex + TOOL_CALL_START.length, endIndex)
+            .trim()
+            // 去除代码块标记
+            .replace(/^```(?:json)?\s*/, '')
+            .replace(/\s*```$/, '')
+
+        let toolCall: { name?: unknown; arguments?: unknown }
+
+        try {
+            toolCall = JSON.parse(rawToolCall)
+        } catch (e) {
+            throw createFormatException(
+                text,
+                `the content of the tool call is not valid JSON (${e.message}).`
+            )
+        }
+
+        if (
+            toolCall == null ||
+            typeof toolCall !== 'object' ||
+            typeof toolCall.name !== 'string' ||
+            toolCall.name.length < 1
+        ) {
+            throw createFormatException(
+                text,
+                'the tool call must be a JSON object with a "name" field.'
+            )
+        }
+
+        return {
+            tool: toolCall.name,
+            toolInput: parseToolInput(toolCall.arguments),
+            log: text
+        }
+    }
+
+    getFormatInstructions(): string {
+        throw new Error(
+            'getFormatInstructions not implemented inside ReActAgentOutputParser.'
+        )
+    }
+}
+
+function parseToolInput(args: unknown): string | object {
+    if (args == null) {
+        return {}
+    }
+
+    if (typeof args !== 'string') {
+        return args as object
+    }
+
+    // 部分模型会把参数再序列化一次
+    try {
+        const result = JSON.parse(args)
+
+        if (typeof result === 'object' && result != null) {
+            return result
+        }
+    } catch (e) {}
+
+    return args
+}
+
+function createFormatException(text: string, error: string) {
+    return new OutputParserException(
+        `Could not parse tool call from model output: ${error}`,
+        text,
+        FORMAT_ERROR_PROMPT.replace('{error}', () => error),
+        true
+    )
+}
@@ -0,0 +1,22 @@
+export const TOOL_CALL_START = '<tool_call>'
+export const TOOL_CALL_END = '</tool_call>'
+export const TOOL_RESULT_START = '<tool_result'
+
+export const TOOLS_PROMPT = `You have access to the following tools:
+
+{tools}
+
+To use a tool, reply with exactly one tool call in the following format and nothing after it:
+
+<tool_call>
+{"name": "tool name, one of [{tool_names}]", "arguments": {"argument name": "argument value"}}
+</tool_call>
+
+The arguments must be a JSON object that matches the parameters of the tool.
+After the tool call, wait for the result, which will be given to you in a <tool_result> block.
+You can use tools as many times as needed.
+When you have enough information, or no tool is needed, reply to the user directly without any <tool_call> block.`
+
+export const FORMAT_ERROR_PROMPT = `Your tool call could not be parsed: {error}
+Please reply again. To use a tool, put a JSON object with "name" and "arguments" fields inside a <tool_call> block.
+To reply to the user directly, do not include any <tool_call> block.`
@@ -26,6 +26,7 @@ import {
 import { RUN_KEY } from '@langchain/core/outputs'
 import { BaseMemory } from '@langchain/core/memory'
 import type { PostHandler } from '../../utils/types'
+import { TokenUsage } from '../platform/types'
 
 export type SystemPrompts = BaseMessage[]
 
@@ -364,7 +365,11 @@ export async function callChatHubChain(
     values: ChainValues & ChatHubLLMChain['llm']['ParsedCallOptions'],
     events: ChatEvents
 ): Promise<ChainValues> {
-    let usedToken = 0
+    const usage: TokenUsage = {
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0
+    }
 
     const response = await chain.invoke(values, {
         callbacks: [
@@ -373,13 +378,30 @@ export async function callChatHubChain(
                     events?.['llm-new-token']?.(token)
                 },
                 handleLLMEnd(output, runId, parentRunId, tags) {
-                    usedToken += output.llmOutput?.tokenUsage?.totalTokens ?? 0
+                    addTokenUsage(usage, output.llmOutput?.tokenUsage)
                 }
             }
         ]
     })
 
-    await events?.['llm-used-token-count'](usedToken)
+    await events?.['llm-used-token-count']?.(usage.totalTokens, usage)
 
     return response
 }
+
+export function addTokenUsage(
+    usage: TokenUsage,
+    tokenUsage?: Partial<TokenUsage>
+) {
+    if (tokenUsage == null) {
+        return usage
+    }
+
+    usage.promptTokens += tokenUsage.promptTokens ?? 0
+    usage.completionTokens += tokenUsage.completionTokens ?? 0
+    usage.totalTokens +=
+        tokenUsage.totalTokens ??
+        (tokenUsage.promptTokens ?? 0) + (tokenUsage.completionTokens ?? 0)
+
+    return usage
+}
@@ -13,6 +13,7 @@ import {
 } from 'koishi-plugin-chatluna/llm-core/memory/langchain'
 import { ChatHubChatPrompt } from 'koishi-plugin-chatluna/llm-core/chain/prompt'
 import { PresetTemplate } from 'koishi-plugin-chatluna/llm-core/prompt'
+import { getReasoningContent } from 'koishi-plugin-chatluna/utils/string'
 
 export interface ChatHubChatChainInput {
     botName: string
@@ -109,7 +110,17 @@ export class ChatHubChatChain
 
         const responseString = response.text
 
-        const aiMessage = new AIMessage(responseString)
+        const reasoningContent = getReasoningContent(
+            response.rawGeneration?.message
+        )
+
+        const aiMessage = new AIMessage({
+            content: responseString,
+            additional_kwargs:
+                reasoningContent != null
+                    ? { reasoning_content: reasoningContent }
+                    : {}
+        })
 
         response.message = aiMessage
 
@@ -3,6 +3,7 @@ import { StructuredTool } from '@langchain/core/tools'
 import { ChainValues } from '@langchain/core/utils/types'
 import { Session } from 'koishi'
 import {
+    addTokenUsage,
     ChatHubLLMCallArg,
     ChatHubLLMChainWrapper,
     SystemPrompts
@@ -11,13 +12,18 @@ import {
     ChatHubBaseEmbeddings,
     ChatLunaChatModel
 } from 'koishi-plugin-chatluna/llm-core/platform/model'
-import { ChatHubTool } from 'koishi-plugin-chatluna/llm-core/platform/types'
+import {
+    ChatHubTool,
+    TokenUsage
+} from 'koishi-plugin-chatluna/llm-core/platform/types'
 import { AgentExecutor } from '../agent/executor'
 import {
     BufferMemory,
     ConversationSummaryMemory
 } from 'koishi-plugin-chatluna/llm-core/memory/langchain'
 import { createOpenAIAgent } from '../agent/openai'
+import { createReActAgent } from '../agent/react'
+import { TOOL_CALL_START } from '../agent/react/prompt'
 import { logger } from '../..'
 import {
     ChatLunaError,
@@ -91,14 +97,33 @@ export class ChatLunaPluginChain
         tools: StructuredTool[],
         preset: () => Promise<PresetTemplate>
     ) {
+        const presetMessages = preset().then(
+            (preset) => preset.messages satisfies SystemPrompts
+        )
+
+        // 模型不支持原生的工具调用时，在提示词中描述工具，从文本中解析调用
+        if (!this._nativeToolCalling) {
+            return AgentExecutor.fromAgentAndTools({
+                tags: ['react'],
+                agent: createReActAgent({
+                    llm,
+                    tools,
+                    preset: presetMessages
+                }),
+                tools,
+                memory: undefined,
+                verbose: false,
+                // 解析失败时通过 ExceptionTool 把错误反馈给模型
+                handleParsingErrors: true
+            })
+        }
+
         return AgentExecutor.fromAgentAndTools({
             tags: ['openai-functions'],
             agent: createOpenAIAgent({
                 llm,
                 tools,
-                preset: preset().then(
-                    (preset) => preset.messages satisfies SystemPrompts
-                )
+                preset: presetMessages
             }),
             tools,
             memory: undefined,
@@ -106,6 +131,10 @@ export class ChatLunaPluginChain
         })
     }
 
+    private get _nativeToolCalling() {
+        return this.llm.modelInfo?.functionCall === true
+    }
+
     private _getActiveTools(
         session: Session,
         messages: BaseMessage[]
@@ -154,6 +183,7 @@ export class ChatLunaPluginChain
 
     async call({
         message,
+        stream,
         signal,
         session,
         events,
@@ -162,6 +192,7 @@ export class ChatLunaPluginChain
         const requests: ChainValues & {
             chat_history?: BaseMessage[]
             id?: string
+            stream?: boolean
         } = {
             input: [message]
         }
@@ -173,6 +204,7 @@ export class ChatLunaPluginChain
         requests['chat_history'] = this.baseMessages
 
         requests['id'] = conversationId
+        requests['stream'] = stream
 
         const [activeTools, recreate] = this._getActiveTools(
             session,
@@ -203,11 +235,34 @@ export class ChatLunaPluginChain
             )
         }
 
-        let usedToken = 0
+        const usage: TokenUsage = {
+            promptTokens: 0,
+            completionTokens: 0,
+            totalTokens: 0
+        }
 
         let response: ChainValues
 
+        const nativeToolCalling = this._nativeToolCalling
+
+        // 提示词模式下，模型流式输出的文本包含本次请求已生成的全部内容，
+        // 记录已经输出的部分，只输出新增的文本
+        let outputText = ''
+        let lastToken: string
+
+        const outputNewText = (text: string) => {
+            if (!text.startsWith(outputText) || text === outputText) {
+                return
+            }
+
+            events?.['llm-new-token'](text.slice(outputText.length))
+            outputText = text
+        }
+
         const request = () => {
+            outputText = ''
+            lastToken = undefined
+
             return this.executor.invoke(
                 {
                     ...requests
@@ -217,12 +272,30 @@ export class ChatLunaPluginChain
                     callbacks: [
                         {
                             handleLLMEnd(output) {
-                                usedToken +=
-                                    output.llmOutput?.tokenUsage?.totalTokens ??
-                                    0
+                                addTokenUsage(
+                                    usage,
+                                    output.llmOutput?.tokenUsage
+                                )
+
+                                // 输出结束时仍未出现工具调用，补发结尾等待中的文本
+                                if (
+                                    lastToken != null &&
+                                    !lastToken.includes(TOOL_CALL_START)
+                                ) {
+                                    outputNewText(lastToken)
+                                }
+
+                                // 下一次请求重新开始输出
+                                outputText = ''
+                                lastToken = undefined
                             },
 
                             handleAgentAction(action) {
+                                // 解析失败的重试不是真正的工具调用
+                                if (action.tool === '_Exception') {
+                                    return
+                                }
+
                                 events?.['llm-call-tool'](
                                     action.tool,
                                     typeof action.toolInput === 'string'
@@ -232,7 +305,15 @@ export class ChatLunaPluginChain
                             },
 
                             handleLLMNewToken(token) {
-                                events?.['llm-new-token'](token)
+                                if (nativeToolCalling) {
+                                    events?.['llm-new-token'](token)
+                                    return
+                                }
+
+                                lastToken = token
+
+                                // 不输出文本形式的工具调用
+                                outputNewText(removeToolCall(token))
                             }
                         }
                     ]
@@ -255,7 +336,7 @@ export class ChatLunaPluginChain
             }
         }
 
-        await events?.['llm-used-token-count']?.(usedToken)
+        await events?.['llm-used-token-count']?.(usage.totalTokens, usage)
 
         const responseString = response.output
 
@@ -268,3 +349,24 @@ export class ChatLunaPluginChain
         return this.llm
     }
 }
+
+// 去掉文本形式的工具调用，结尾可能是工具调用的开头（如 <tool_）时先不输出
+function removeToolCall(text: string) {
+    const index = text.indexOf(TOOL_CALL_START)
+
+    if (index !== -1) {
+        return text.slice(0, index)
+    }
+
+    for (
+        let i = Math.min(text.length, TOOL_CALL_START.length - 1);
+        i > 0;
+        i--
+    ) {
+        if (TOOL_CALL_START.startsWith(text.slice(-i))) {
+            return text.slice(0, -i)
+        }
+    }
+
+    return text
+}
@@ -23,17 +23,27 @@ import {
 } from 'koishi-plugin-chatluna/llm-core/platform/client'
 import {
     ClientConfig,
-    ClientConfigWrapper
+    ClientConfigWrapper,
+    isRateLimitError
 } from 'koishi-plugin-chatluna/llm-core/platform/config'
 import {
     ChatHubBaseEmbeddings,
     ChatLunaChatModel
 } from 'koishi-plugin-chatluna/llm-core/platform/model'
-import { PlatformService } from 'koishi-plugin-chatluna/llm-core/platform/service'
-import { ModelInfo } from 'koishi-plugin-chatluna/llm-core/platform/types'
+import {
+    pickGenerationParams,
+    PlatformService
+} from 'koishi-plugin-chatluna/llm-core/platform/service'
+import {
+    ModelGenerationParams,
+    ModelInfo
+} from 'koishi-plugin-chatluna/llm-core/platform/types'
 import { AIMessage, HumanMessage } from '@langchain/core/messages'
 import { PresetTemplate } from 'koishi-plugin-chatluna/llm-core/prompt'
-import { getMessageContent } from 'koishi-plugin-chatluna/utils/string'
+import {
+    getMessageContent,
+    getReasoningContent
+} from 'koishi-plugin-chatluna/utils/string'
 import type { HandlerResult } from '../../utils/types'
 
 export class ChatInterface {
@@ -42,7 +52,6 @@ export class ChatInterface {
     private _chains: Record<string, ChatHubLLMChainWrapper> = {}
     private _embeddings: Embeddings
 
-    private _errorCountsMap: Record<string, number[]> = {}
     private _chatCount = 0
 
     constructor(
@@ -53,8 +62,100 @@ export class ChatInterface {
     }
 
     async chat(arg: ChatHubLLMCallArg): Promise<ChainValues> {
-        const [wrapper, config] = await this.createChatHubLLMChainWrapper()
-        const configMD5 = config.md5()
+        const models = [
+            ...new Set([
+                this._input.model,
+                ...(this._input.fallbackModels ?? [])
+            ])
+        ].filter((model) => model != null && model.length > 0)
+
+        let lastError: unknown
+
+        for (let i = 0; i < models.length; i++) {
+            const model = models[i]
+
+            // 已经输出给用户的内容无法撤回，只在输出前回退到其他模型
+            let streamed = false
+
+            const onNewToken = arg.events?.['llm-new-token']
+
+            try {
+                if (i > 0) {
+                    await arg.events?.['llm-model-fallback']?.(model)
+                }
+
+                const response = await this._chatWithModel(
+                    {
+                        ...arg,
+                        events: {
+                            ...arg.events,
+                            // eslint-disable-next-line @typescript-eslint/naming-convention
+                            'llm-new-token':
+                                onNewToken &&
+                                (async (token) => {
+                                    streamed = streamed || token !== ''
+                                    await onNewToken(token)
+                                })
+                        },
+                        // 失败的请求可能已经修改了变量，每次请求使用新的副本
+                        variables: { ...arg.variables }
+                    },
+                    model
+                )
+                response.model = model
+                return response
+            } catch (e) {
+                lastError = e
+
+                if (
+                    streamed ||
+                    (e instanceof ChatLunaError &&
+                        (e.errorCode === ChatLunaErrorCode.ABORTED ||
+                            e.errorCode ===
+                                ChatLunaErrorCode.API_UNSAFE_CONTENT))
+                ) {
+                    throw e
+                }
+
+                if (i < models.length - 1) {
+                    logger.warn(
+                        `Model ${model} failed, falling back to ${models[i + 1]}`
+                    )
+                    logger.debug(e)
+                }
+            }
+        }
+
+        throw lastError
+    }
+
+    private async _chatWithModel(
+        arg: ChatHubLLMCallArg,
+        model: string
+    ): Promise<ChainValues> {
+        const [wrapper, config] = await this.createChatHubLLMChainWrapper(model)
+        const chainKey = model + '|' + config.md5()
+        const service = this.ctx.chatluna.platform
+
+        const images = (arg.message.additional_kwargs?.images ?? []) as string[]
+        const imageCaptions = (arg.message.additional_kwargs?.imageCaptions ??
+            []) as string[]
+
+        // 图片无法发送给不支持图片输入的模型，可以回退到其他模型
+        // 所有图片都有描述时，模型可以通过描述理解图片
+        if (
+            images.length > imageCaptions.length &&
+            !wrapper.model.modelInfo?.imageInput
+        ) {
+            throw new ChatLunaError(
+                ChatLunaErrorCode.MODEL_NOT_SUPPORT_IMAGE_INPUT,
+                new Error(`The model ${model} does not support image input.`)
+            )
+        }
+
+        let startTime = Date.now()
+
+        service.acquireConfig(config.value)
 
         try {
             await this.ctx.parallel(
@@ -70,10 +171,17 @@ export class ChatInterface {
 
             arg.variables = Object.assign(arg.variables, args, arg.variables)
 
+            startTime = Date.now()
+
             const response = (await wrapper.call(arg)) as {
                 message: AIMessage
             } & ChainValues
 
+            service.reportConfigResult(config.value, {
+                success: true,
+                latency: Date.now() - startTime
+            })
+
             this._chatCount++
 
             // Do not wait for completion
@@ -99,6 +207,14 @@ export class ChatInterface {
                 response.message.content = handlerResult.content
             }
 
+            // 推理内容只用于展示，不写入历史记录
+            const reasoningContent = getReasoningContent(response.message)
+
+            if (reasoningContent != null) {
+                delete response.message.additional_kwargs.reasoning_content
+                response.reasoningContent = reasoningContent
+            }
+
             await this.chatHistory.addMessages([arg.message, response.message])
 
             if (handlerResult) {
@@ -114,41 +230,26 @@ export class ChatInterface {
         } catch (e) {
             if (
                 e instanceof ChatLunaError &&
-                e.errorCode === ChatLunaErrorCode.API_UNSAFE_CONTENT
+                (e.errorCode === ChatLunaErrorCode.API_UNSAFE_CONTENT ||
+                    e.errorCode === ChatLunaErrorCode.ABORTED)
             ) {
                 // unsafe content not to real error
                 throw e
             }
 
-            this._errorCountsMap[configMD5] =
-                this._errorCountsMap[configMD5] ?? []
-
-            let errorCountsArray = this._errorCountsMap[configMD5]
-
-            errorCountsArray.push(Date.now())
-
-            if (errorCountsArray.length > 100) {
-                errorCountsArray = errorCountsArray.splice(
-                    -config.value.maxRetries * 3
-                )
-            }
-
-            this._errorCountsMap[configMD5] = errorCountsArray
-
-            if (
-                errorCountsArray.length > config.value.maxRetries &&
-                // 20 mins
-                checkRange(
-                    errorCountsArray.splice(-config.value.maxRetries),
-                    1000 * 60 * 20
-                )
-            ) {
-                delete this._chains[configMD5]
-                delete this._errorCountsMap[configMD5]
-
-                const service = this.ctx.chatluna.platform
-
-                await service.makeConfigStatus(config.value, false)
+            // 连续失败时配置会进入冷却，冷却结束后自动恢复
+            const tripped = service.reportConfigResult(config.value, {
+                success: false,
+                latency: Date.now() - startTime,
+                errorCode:
+                    e instanceof ChatLunaError
+                        ? e.errorCode
+                        : ChatLunaErrorCode.UNKNOWN_ERROR,
+                rateLimited: isRateLimitError(e)
+            })
+
+            if (tripped) {
+                delete this._chains[chainKey]
             }
 
             if (e instanceof ChatLunaError) {
@@ -156,18 +257,30 @@ export class ChatInterface {
             } else {
                 throw new ChatLunaError(ChatLunaErrorCode.UNKNOWN_ERROR, e)
             }
+        } finally {
+            service.releaseConfig(config.value)
         }
     }
 
-    async createChatHubLLMChainWrapper(): Promise<
-        [ChatHubLLMChainWrapper, ClientConfigWrapper]
-    > {
+    async createChatHubLLMChainWrapper(
+        model: string = this._input.model
+    ): Promise<[ChatHubLLMChainWrapper, ClientConfigWrapper]> {
         const service = this.ctx.chatluna.platform
-        const [llmPlatform, llmModelName] = parseRawModelName(this._input.model)
+        const [targetModel, modelParams] = service.resolveModelAlias(model)
+        const [llmPlatform, llmModelName] = parseRawModelName(targetModel)
         const currentLLMConfig = await service.randomConfig(llmPlatform)
 
-        if (this._chains[currentLLMConfig.md5()]) {
-            return [this._chains[currentLLMConfig.md5()], currentLLMConfig]
+        if (currentLLMConfig == null) {
+            throw new ChatLunaError(
+                ChatLunaErrorCode.MODEL_ADAPTER_NOT_FOUND,
+                new Error(`Can't find the platform ${llmPlatform}`)
+            )
+        }
+
+        const chainKey = model + '|' + currentLLMConfig.md5()
+
+        if (this._chains[chainKey]) {
+            return [this._chains[chainKey], currentLLMConfig]
         }
 
         let embeddings: Embeddings
@@ -192,7 +305,8 @@ export class ChatInterface {
             ;[llm, modelInfo] = await this._initModel(
                 service,
                 currentLLMConfig.value,
-                llmModelName
+                llmModelName,
+                modelParams
             )
         } catch (error) {
             if (error instanceof ChatLunaError) {
@@ -201,7 +315,12 @@ export class ChatInterface {
             throw new ChatLunaError(ChatLunaErrorCode.MODEL_INIT_ERROR, error)
         }
 
-        embeddings = (await this._checkChatMode(modelInfo)) ?? embeddings
+        const chatMode = this._checkChatMode(modelInfo, model)
+
+        // 降级为聊天模式时不使用嵌入模型
+        if (chatMode !== this._input.chatMode) {
+            embeddings = emptyEmbeddings
+        }
 
         try {
             await this._createChatHistory()
@@ -224,7 +343,7 @@ export class ChatInterface {
             throw new ChatLunaError(ChatLunaErrorCode.UNKNOWN_ERROR, error)
         }
 
-        const chatChain = await service.createChatChain(this._input.chatMode, {
+        const chatChain = await service.createChatChain(chatMode, {
             botName: this._input.botName,
             model: llm,
             embeddings,
@@ -233,7 +352,7 @@ export class ChatInterface {
             vectorStoreName: this._input.vectorStoreName
         })
 
-        this._chains[currentLLMConfig.md5()] = chatChain
+        this._chains[chainKey] = chatChain
         this._embeddings = embeddings
 
         return [chatChain, currentLLMConfig]
@@ -286,6 +405,12 @@ export class ChatInterface {
 
         await this._chatHistory.clear()
 
+        await this.ctx.parallel(
+            'chatluna/clear-chat-history',
+            this._input.conversationId,
+            this
+        )
+
         for (const chain of Object.values(this._chains)) {
             await chain.model.clearContext()
             const historyMemory = chain.historyMemory
@@ -344,7 +469,8 @@ export class ChatInterface {
     private async _initModel(
         service: PlatformService,
         config: ClientConfig,
-        llmModelName: string
+        llmModelName: string,
+        params: ModelGenerationParams = {}
     ): Promise<[ChatLunaChatModel, ModelInfo]> {
         const platform = await service.getClient(config)
 
@@ -355,30 +481,39 @@ export class ChatInterface {
         const llmModel = platform.createModel(llmModelName)
 
         if (llmModel instanceof ChatLunaChatModel) {
-            return [llmModel, llmInfo]
+            const preset = await this._input.preset()
+
+            // 优先级：房间 > 预设 > 别名
+            return [
+                llmModel.withCallOptions({
+                    ...params,
+                    ...pickGenerationParams(preset?.modelConfig?.params),
+                    ...pickGenerationParams(this._input.modelParams)
+                }),
+                llmInfo
+            ]
         }
     }
 
-    private async _checkChatMode(modelInfo: ModelInfo) {
+    private _checkChatMode(modelInfo: ModelInfo, model: string) {
+        const chatMode = this._input.chatMode
+
+        // 不支持工具调用的模型在插件模式下会使用基于提示词的 agent
         if (
             // default check
-            (!modelInfo.supportMode?.includes(this._input.chatMode) &&
-                // all
-                !modelInfo.supportMode?.includes('all')) ||
-            // func call with plugin browsing
-            (!modelInfo.functionCall && this._input.chatMode === 'plugin')
+            !modelInfo.supportMode?.includes(chatMode) &&
+            // all
+            !modelInfo.supportMode?.includes('all')
         ) {
             logger.warn(
-                `Chat mode ${this._input.chatMode} is not supported by model ${this._input.model}, falling back to chat mode`
+                `Chat mode ${chatMode} is not supported by model ${model}, falling back to chat mode`
             )
 
-            this._input.chatMode = 'chat'
-            const embeddings = emptyEmbeddings
-
-            return embeddings
+            // 只对当前模型降级，不修改房间的聊天模式
+            return 'chat'
         }
 
-        return undefined
+        return chatMode
     }
 
     private async _createChatHistory(): Promise<BaseChatMessageHistory> {
@@ -422,10 +557,23 @@ export class ChatInterface {
 
         if (historyMemory instanceof ConversationSummaryMemory) {
             const memory = historyMemory as ConversationSummaryMemory
-            memory.buffer = await memory.predictNewSummary(
-                (await memory.chatHistory.getMessages()).slice(-2),
-                ''
-            )
+            const messages = await memory.chatHistory.getMessages()
+
+            // 编辑或删除消息后，之前的总结已经失效，根据全部聊天记录重新生成
+            if (
+                (await this._chatHistory.getAdditionalArg(
+                    'summaryOutdated'
+                )) === 'true'
+            ) {
+                memory.buffer = await memory.predictNewSummary(messages, '')
+
+                await this._chatHistory.deleteAdditionalArg('summaryOutdated')
+            } else {
+                memory.buffer = await memory.predictNewSummary(
+                    messages.slice(-2),
+                    ''
+                )
+            }
         }
 
         return historyMemory
@@ -438,6 +586,8 @@ export interface ChatInterfaceInput {
     botName?: string
     preset?: () => Promise<PresetTemplate>
     model: string
+    fallbackModels?: string[]
+    modelParams?: ModelGenerationParams
     embeddings?: string
     vectorStoreName?: string
     conversationId: string
@@ -445,13 +595,6 @@ export interface ChatInterfaceInput {
     longMemory: boolean
 }
 
-function checkRange(times: number[], delayTime: number) {
-    const first = times[0]
-    const last = times[times.length - 1]
-
-    return last - first < delayTime
-}
-
 declare module 'koishi' {
     interface Events {
         'chatluna/before-chat': (
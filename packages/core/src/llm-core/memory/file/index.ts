@@ -0,0 +1,156 @@
+import { Context } from 'koishi'
+import { Config, logger } from 'koishi-plugin-chatluna'
+import { Document } from '@langchain/core/documents'
+import { HumanMessage } from '@langchain/core/messages'
+import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters'
+import { ChatInterface } from 'koishi-plugin-chatluna/llm-core/chat/app'
+import { emptyEmbeddings } from 'koishi-plugin-chatluna/llm-core/model/in_memory'
+import { MemoryVectorStore } from 'koishi-plugin-chatluna/llm-core/vectorstores'
+import { getMessageContent } from 'koishi-plugin-chatluna/utils/string'
+
+const FILE_CHUNK_SIZE = 1000
+
+export interface FileContent {
+    name: string
+    content: string
+}
+
+export function apply(ctx: Context, config: Config): void {
+    if (!config.fileInput) {
+        return undefined
+    }
+
+    // 每个对话的文件内容，之后的对话中仍然可以检索
+    const vectorStores = new Map<string, MemoryVectorStore>()
+
+    ctx.on(
+        'chatluna/before-chat',
+        async (conversationId, message, promptVariables, chatInterface) => {
+            const files = message.additional_kwargs?.files as FileContent[]
+
+            if (files != null && files.length > 0) {
+                // 文件内容只需处理一次，回退到其他模型时不会重复加入
+                delete message.additional_kwargs.files
+
+                const added = await addFileContents(
+                    vectorStores,
+                    conversationId,
+                    files,
+                    chatInterface
+                )
+
+                if (!added) {
+                    // 无法检索时，截断文件内容后加入到消息中
+                    message.content =
+                        getMessageContent(message.content) +
+                        files
+                            .map(
+                                (file) =>
+                                    `\n\n[file: ${file.name} (truncated)]\n${file.content.slice(0, config.fileInputInlineLength)}\n[/file]`
+                            )
+                            .join('')
+                }
+            }
+
+            const knowledge = await searchFileContents(
+                config,
+                vectorStores.get(conversationId),
+                message,
+                chatInterface
+            )
+
+            if (knowledge != null && knowledge.length > 0) {
+                promptVariables['knowledge'] = [
+                    ...((promptVariables['knowledge'] as Document[]) ?? []),
+                    ...knowledge
+                ]
+            }
+        }
+    )
+
+    ctx.on(
+        'chatluna/clear-chat-history',
+        async (conversationId, chatInterface) => {
+            vectorStores.delete(conversationId)
+        }
+    )
+}
+
+function canRetrieve(chatInterface: ChatInterface) {
+    // 插件模式的提示词不包含检索的内容
+    return (
+        chatInterface.chatMode !== 'plugin' &&
+        chatInterface.embeddings !== emptyEmbeddings
+    )
+}
+
+async function addFileContents(
+    vectorStores: Map<string, MemoryVectorStore>,
+    conversationId: string,
+    files: FileContent[],
+    chatInterface: ChatInterface
+): Promise<boolean> {
+    if (!canRetrieve(chatInterface)) {
+        return false
+    }
+
+    const embeddings = chatInterface.embeddings
+
+    try {
+        const textSplitter = new RecursiveCharacterTextSplitter({
+            chunkSize: FILE_CHUNK_SIZE,
+            chunkOverlap: 100
+        })
+
+        const documents = await textSplitter.createDocuments(
+            files.map((file) => file.content),
+            files.map((file) => ({ source: file.name }))
+        )
+
+        let vectorStore = vectorStores.get(conversationId)
+
+        if (vectorStore == null) {
+            vectorStore = new MemoryVectorStore(embeddings)
+            vectorStores.set(conversationId, vectorStore)
+        }
+
+        // 只保存在内存中，清除聊天记录时一并删除
+        await vectorStore.addDocuments(documents)
+
+        return true
+    } catch (e) {
+        logger?.warn(`Error when adding file contents: ${e}`)
+        return false
+    }
+}
+
+async function searchFileContents(
+    config: Config,
+    vectorStore: MemoryVectorStore | undefined,
+    message: HumanMessage,
+    chatInterface: ChatInterface
+): Promise<Document[] | undefined> {
+    if (vectorStore == null || !canRetrieve(chatInterface)) {
+        return undefined
+    }
+
+    try {
+        const result = await vectorStore.similaritySearch(
+            getMessageContent(message.content),
+            Math.ceil(config.fileInputInlineLength / FILE_CHUNK_SIZE)
+        )
+
+        logger?.debug(`File contents: ${JSON.stringify(result)}`)
+
+        return result.map(
+            (document) =>
+                new Document({
+                    pageContent: `[file: ${document.metadata.source}]\n${document.pageContent}`,
+                    metadata: document.metadata
+                })
+        )
+    } catch (e) {
+        logger?.warn(`Error when retrieving file contents: ${e}`)
+        return undefined
+    }
+}
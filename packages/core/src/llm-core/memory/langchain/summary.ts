@@ -10,7 +10,7 @@ import {
     MemoryVariables,
     OutputValues
 } from '@langchain/core/memory'
-import { BaseChatMemory, BaseChatMemoryInput } from './chat_memory.js'
+import { BaseChatMemory, BaseChatMemoryInput } from './chat_memory'
 
 /**
  * Interface for the input parameters of the ConversationSummaryMemory
@@ -49,6 +49,8 @@ export class KoishiChatMessageHistory extends BaseChatMessageHistory {
             latestUpdateTime > this._updatedAt ||
             this._chatHistory.length === 0
         ) {
+            // 消息可能在外部被编辑或删除，需要同时刷新 latestId
+            await this._loadConversation()
             this._chatHistory = await this._loadMessages()
         }
 
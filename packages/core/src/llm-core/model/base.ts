@@ -17,12 +17,18 @@ export class ChatLunaSaveableVectorStore<T extends VectorStore>
         this.deletableFunction = input.deletableFunction ?? (async () => {})
     }
 
-    addVectors(vectors: number[][], documents: Document[]) {
-        return this._store.addVectors(vectors, documents)
+    addVectors(
+        vectors: number[][],
+        documents: Document[],
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        options?: Record<string, any>
+    ) {
+        return this._store.addVectors(vectors, documents, options)
     }
 
-    addDocuments(documents: Document[]) {
-        return this._store.addDocuments(documents)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    addDocuments(documents: Document[], options?: Record<string, any>) {
+        return this._store.addDocuments(documents, options)
     }
 
     similaritySearchVectorWithScore(
@@ -37,8 +43,12 @@ export class ChatLunaSaveableVectorStore<T extends VectorStore>
         return this.saveableFunction(this._store)
     }
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    delete(_params?: Record<string, any>): Promise<void> {
+    // 传入 ids 或 metadata 时只删除对应的文档，否则删除整个向量数据库
+    delete(params?: ChatLunaVectorStoreDeleteParams): Promise<void> {
+        if (params?.ids != null || params?.metadata != null) {
+            return this._store.delete(params)
+        }
+
         return this.deletableFunction(this._store)
     }
 
@@ -51,3 +61,9 @@ export interface ChatLunaSaveableVectorStoreInput<T> {
     saveableFunction?: (store: T) => Promise<void>
     deletableFunction?: (store: T) => Promise<void>
 }
+
+export interface ChatLunaVectorStoreDeleteParams {
+    ids?: string[]
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    metadata?: Record<string, any>
+}
@@ -55,6 +55,27 @@ export interface ModelRequestParams extends BaseRequestParams {
     id?: string
 
     tools?: StructuredTool[]
+
+    /**
+     * Structured output format. The schema is always a JSON schema here,
+     * requesters should map it to the native mechanism of the platform.
+     */
+    responseFormat?: ChatLunaResponseFormat
+}
+
+export interface ChatLunaResponseFormat {
+    /** Name of the output, required by some platforms */
+    name?: string
+
+    /** JSON schema of the output. A zod schema is also accepted by the model */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    schema: Record<string, any>
+
+    /** Whether the platform should strictly follow the schema */
+    strict?: boolean
+
+    /** Max attempts to repair invalid output, defaults to 2 */
+    maxRepairAttempts?: number
 }
 
 export interface EmbeddingsRequestParams extends BaseRequestParams {
@@ -81,6 +102,11 @@ export abstract class ModelRequester implements BaseRequester {
         return result
     }
 
+    /**
+     * Stream the completion. Each chunk contains the full content so far.
+     * The final chunk should set `generationInfo.tokenUsage` with the usage
+     * reported by the platform, otherwise the usage will be estimated.
+     */
     abstract completionStream(
         params: ModelRequestParams
     ): AsyncGenerator<ChatGenerationChunk>
@@ -16,15 +16,56 @@ export interface ClientConfig {
     chatLimit: Computed<Awaitable<number>>
 }
 
+// 不参与配置的 md5 计算，修改后不会影响配置的可用状态
+export interface ClientConfigOptions {
+    // 权重越高，越优先被选中
+    weight?: number
+    // 每小时的请求额度，为空或 0 时不限制
+    quota?: number
+}
+
 export interface ClientConfigWrapper<T extends ClientConfig = ClientConfig> {
     value: T
+    options: ClientConfigOptions
 
     md5(): string
 
     isAvailable: boolean
+    health: ClientConfigHealth
     _md5?: string
 }
 
+export interface ClientConfigHealth {
+    requestCount: number
+    errorCount: number
+    rateLimitCount: number
+    totalLatency: number
+    consecutiveErrors: number
+    lastErrorCode?: number
+    lastErrorTime?: number
+    // 熔断次数，每次熔断冷却时间翻倍
+    tripCount: number
+    cooldownUntil?: number
+    // 正在进行中的请求数
+    inFlight: number
+    // 当前小时内的请求数，用于按用量选择配置
+    hourlyCount: number
+    hourlyWindowStart: number
+}
+
+export interface ClientConfigRequestResult {
+    success: boolean
+    latency: number
+    errorCode?: number
+    rateLimited?: boolean
+}
+
+// 连续失败多少次后熔断
+const CIRCUIT_BREAKER_THRESHOLD = 3
+const BASE_COOLDOWN_TIME = 1000 * 60
+const MAX_COOLDOWN_TIME = 1000 * 60 * 30
+const USAGE_WINDOW_TIME = 1000 * 60 * 60
+
 export class ClientConfigPool<T extends ClientConfig = ClientConfig> {
     private _configs: ClientConfigWrapper<T>[] = []
 
@@ -39,8 +80,8 @@ export class ClientConfigPool<T extends ClientConfig = ClientConfig> {
         this._mode = mode
     }
 
-    async addConfig(config: T) {
-        const wrapperConfig = this._createWrapperConfig(config)
+    async addConfig(config: T, options: ClientConfigOptions = {}) {
+        const wrapperConfig = this._createWrapperConfig(config, options)
 
         this._configs.push(wrapperConfig)
 
@@ -52,11 +93,19 @@ export class ClientConfigPool<T extends ClientConfig = ClientConfig> {
     }
 
     getConfig(lockSelectConfig: boolean = false): ClientConfigWrapper<T> {
+        if (this._mode === ClientConfigPoolMode.Weighted) {
+            return this._getWeightedConfig()
+        } else if (this._mode === ClientConfigPoolMode.LeastBusy) {
+            return this._getLeastBusyConfig()
+        } else if (this._mode === ClientConfigPoolMode.UsageAware) {
+            return this._getUsageAwareConfig()
+        }
+
         if (this._mode !== ClientConfigPoolMode.LoadBalancing) {
             for (let i = 0; i < this._configs.length; i++) {
                 const config = this._configs[i]
 
-                if (config.isAvailable) {
+                if (this._isUsable(config)) {
                     return config
                 }
             }
@@ -68,7 +117,7 @@ export class ClientConfigPool<T extends ClientConfig = ClientConfig> {
         while (true) {
             const config = this._configs[this._currentLoadConfigIndex]
 
-            if (config.isAvailable) {
+            if (this._isUsable(config)) {
                 if (!lockSelectConfig) {
                     this._currentLoadConfigIndex =
                         (this._currentLoadConfigIndex + 1) %
@@ -107,6 +156,209 @@ export class ClientConfigPool<T extends ClientConfig = ClientConfig> {
         wrapper.isAvailable = isAvailable
     }
 
+    /**
+     * Mark a request as started on the config, so that the least busy
+     * and usage aware modes can take it into account.
+     * Must be paired with a call to `releaseConfig`.
+     */
+    acquireConfig(config: T) {
+        const wrapper = this._findWrapper(config)
+
+        if (wrapper == null) {
+            return
+        }
+
+        const health = wrapper.health
+
+        health.inFlight++
+
+        if (Date.now() - health.hourlyWindowStart >= USAGE_WINDOW_TIME) {
+            health.hourlyWindowStart = Date.now()
+            health.hourlyCount = 0
+        }
+
+        health.hourlyCount++
+    }
+
+    releaseConfig(config: T) {
+        const wrapper = this._findWrapper(config)
+
+        if (wrapper == null) {
+            return
+        }
+
+        wrapper.health.inFlight = Math.max(0, wrapper.health.inFlight - 1)
+    }
+
+    /**
+     * Record the result of a request. Trip the circuit breaker and cool down
+     * the config when it fails repeatedly or hits the rate limit.
+     * Return whether the circuit breaker is tripped.
+     */
+    reportResult(config: T, result: ClientConfigRequestResult): boolean {
+        const wrapper = this._findWrapper(config)
+
+        if (wrapper == null) {
+            return false
+        }
+
+        const health = wrapper.health
+
+        health.requestCount++
+        health.totalLatency += result.latency
+
+        if (result.success) {
+            // 冷却结束后的第一次请求成功，恢复正常
+            health.consecutiveErrors = 0
+            health.tripCount = 0
+            health.cooldownUntil = undefined
+            return false
+        }
+
+        health.errorCount++
+        health.consecutiveErrors++
+        health.lastErrorCode = result.errorCode
+        health.lastErrorTime = Date.now()
+
+        if (result.rateLimited) {
+            health.rateLimitCount++
+        }
+
+        if (
+            !result.rateLimited &&
+            health.consecutiveErrors < CIRCUIT_BREAKER_THRESHOLD
+        ) {
+            return false
+        }
+
+        const cooldownTime = Math.min(
+            BASE_COOLDOWN_TIME * 2 ** health.tripCount,
+            MAX_COOLDOWN_TIME
+        )
+
+        health.tripCount++
+        health.cooldownUntil = Date.now() + cooldownTime
+
+        this.ctx.logger.warn(
+            `config ${maskApiKey(config.apiKey)} of ${config.platform} is cooling down for ${cooldownTime / 1000}s`
+        )
+
+        return true
+    }
+
+    private _isUsable(config: ClientConfigWrapper<T>) {
+        // 冷却结束后允许再次请求，以探测是否恢复
+        return (
+            config.isAvailable &&
+            (config.health.cooldownUntil == null ||
+                config.health.cooldownUntil <= Date.now())
+        )
+    }
+
+    private _getWeightedConfig() {
+        const configs = this._getCandidateConfigs()
+
+        const weights = configs.map((config) =>
+            Math.max(0, config.options.weight ?? 1)
+        )
+        const totalWeight = weights.reduce((sum, weight) => sum + weight, 0)
+
+        // 所有配置的权重都为 0 时，退化为随机选择
+        if (totalWeight <= 0) {
+            return configs[Math.floor(Math.random() * configs.length)]
+        }
+
+        let random = Math.random() * totalWeight
+
+        for (let i = 0; i < configs.length; i++) {
+            random -= weights[i]
+
+            if (random < 0) {
+                return configs[i]
+            }
+        }
+
+        return configs[configs.length - 1]
+    }
+
+    private _getLeastBusyConfig() {
+        const configs = this._getCandidateConfigs()
+
+        // 按并发占用比例选择，相同时选择总请求数更少的配置
+        return configs.reduce((best, config) => {
+            const load = this._getLoad(config)
+            const bestLoad = this._getLoad(best)
+
+            if (load !== bestLoad) {
+                return load < bestLoad ? config : best
+            }
+
+            return config.health.requestCount < best.health.requestCount
+                ? config
+                : best
+        })
+    }
+
+    private _getUsageAwareConfig() {
+        const configs = this._getCandidateConfigs()
+
+        // 优先用完权重更高（更便宜或额度更多）的配置，额度用尽后再使用下一个
+        const config = configs
+            .filter((config) => this._hasQuota(config))
+            .sort(
+                (a, b) => (b.options.weight ?? 1) - (a.options.weight ?? 1)
+            )[0]
+
+        return config ?? this._getLeastBusyConfig()
+    }
+
+    private _getCandidateConfigs() {
+        const configs = this._configs.filter((config) => this._isUsable(config))
+
+        if (configs.length < 1) {
+            throw new ChatLunaError(ChatLunaErrorCode.NOT_AVAILABLE_CONFIG)
+        }
+
+        const idleConfigs = configs.filter(
+            (config) => this._getLoad(config) < 1
+        )
+
+        // 所有配置都已满载时，仍然返回全部可用配置，由请求队列等待
+        return idleConfigs.length > 0 ? idleConfigs : configs
+    }
+
+    private _getLoad(config: ClientConfigWrapper<T>) {
+        const maxSize = config.value.concurrentMaxSize
+
+        if (maxSize == null || maxSize < 1) {
+            return 0
+        }
+
+        return config.health.inFlight / maxSize
+    }
+
+    private _hasQuota(config: ClientConfigWrapper<T>) {
+        const quota = config.options.quota
+
+        if (quota == null || quota < 1) {
+            return true
+        }
+
+        const health = config.health
+
+        if (Date.now() - health.hourlyWindowStart >= USAGE_WINDOW_TIME) {
+            return true
+        }
+
+        return health.hourlyCount < quota
+    }
+
+    private _findWrapper(config: T) {
+        const key = this._getConfigMD5(config)
+
+        return this._configs.find((c) => c.md5() === key)
+    }
+
     private _getConfigMD5(config: T) {
         const values = Object.keys(config)
             .sort()
@@ -115,16 +367,31 @@ export class ClientConfigPool<T extends ClientConfig = ClientConfig> {
         return md5(values.join(''))
     }
 
-    private _createWrapperConfig(config: T): ClientConfigWrapper<T> {
+    private _createWrapperConfig(
+        config: T,
+        options: ClientConfigOptions
+    ): ClientConfigWrapper<T> {
         const wrapper: ClientConfigWrapper<T> = {
             value: config,
+            options,
             md5: () => {
                 if (wrapper._md5 == null) {
                     wrapper._md5 = this._getConfigMD5(config)
                 }
                 return wrapper._md5
             },
-            isAvailable: true
+            isAvailable: true,
+            health: {
+                requestCount: 0,
+                errorCount: 0,
+                rateLimitCount: 0,
+                totalLatency: 0,
+                consecutiveErrors: 0,
+                tripCount: 0,
+                inFlight: 0,
+                hourlyCount: 0,
+                hourlyWindowStart: Date.now()
+            }
         }
         return wrapper
     }
@@ -143,6 +410,35 @@ export class ClientConfigPool<T extends ClientConfig = ClientConfig> {
     }
 }
 
+export function maskApiKey(apiKey: string) {
+    if (apiKey == null || apiKey.length < 1) {
+        return '(empty)'
+    }
+
+    if (apiKey.length <= 8) {
+        return '*'.repeat(apiKey.length)
+    }
+
+    return apiKey.slice(0, 4) + '****' + apiKey.slice(-4)
+}
+
+export function isRateLimitError(error: unknown) {
+    let current = error as Error & { originError?: Error }
+
+    // 错误可能被多层包装，逐层检查
+    for (let i = 0; i < 5 && current != null; i++) {
+        if (
+            /\b429\b|rate.?limit|too many requests|quota/i.test(current.message)
+        ) {
+            return true
+        }
+
+        current = (current.originError ?? current.cause) as typeof current
+    }
+
+    return false
+}
+
 declare module '@koishijs/cache' {
     interface Tables {
         'chathub/client_config': boolean
@@ -151,5 +447,8 @@ declare module '@koishijs/cache' {
 
 export enum ClientConfigPoolMode {
     LoadBalancing,
-    AlwaysTheSame
+    AlwaysTheSame,
+    Weighted,
+    LeastBusy,
+    UsageAware
 }
@@ -4,7 +4,11 @@ import {
     BaseChatModel,
     BaseChatModelCallOptions
 } from '@langchain/core/language_models/chat_models'
-import { BaseMessage } from '@langchain/core/messages'
+import {
+    AIMessageChunk,
+    BaseMessage,
+    HumanMessage
+} from '@langchain/core/messages'
 import {
     ChatGeneration,
     ChatGenerationChunk,
@@ -14,12 +18,16 @@ import { StructuredTool } from '@langchain/core/tools'
 import { Tiktoken } from 'js-tiktoken'
 import { sleep } from 'koishi'
 import {
+    ChatLunaResponseFormat,
     EmbeddingsRequester,
     EmbeddingsRequestParams,
     ModelRequester,
     ModelRequestParams
 } from 'koishi-plugin-chatluna/llm-core/platform/api'
-import { ModelInfo } from 'koishi-plugin-chatluna/llm-core/platform/types'
+import {
+    ModelInfo,
+    TokenUsage
+} from 'koishi-plugin-chatluna/llm-core/platform/types'
 import {
     getModelContextSize,
     getModelNameForTiktoken,
@@ -30,7 +38,14 @@ import {
     ChatLunaErrorCode
 } from 'koishi-plugin-chatluna/utils/error'
 import { runAsync, withResolver } from 'koishi-plugin-chatluna/utils/promise'
+import { getMessageContent } from 'koishi-plugin-chatluna/utils/string'
 import { chunkArray } from '../utils/chunk'
+import {
+    addStructuredOutputPrompt,
+    createRepairMessages,
+    formatResponseFormat,
+    parseStructuredOutput
+} from '../utils/structured_output'
 import { encodingForModel } from '../utils/tiktoken'
 
 export interface ChatLunaModelCallOptions extends BaseChatModelCallOptions {
@@ -73,6 +88,12 @@ export interface ChatLunaModelCallOptions extends BaseChatModelCallOptions {
     tools?: StructuredTool[]
 
     tool_choice?: string
+
+    /**
+     * Ask the model to respond with JSON matching the schema.
+     * The parsed value is returned in `additional_kwargs.parsed`.
+     */
+    responseFormat?: ChatLunaResponseFormat
 }
 
 export interface ChatLunaModelInput extends ChatLunaModelCallOptions {
@@ -123,7 +144,8 @@ export class ChatLunaChatModel extends BaseChatModel<ChatLunaModelCallOptions> {
             'logitBias',
             'id',
             'stream',
-            'tools'
+            'tools',
+            'responseFormat'
         ]
     }
 
@@ -165,6 +187,12 @@ export class ChatLunaChatModel extends BaseChatModel<ChatLunaModelCallOptions> {
             stop: options?.stop ?? this._options.stop,
             stream: options?.stream ?? this._options.stream,
             tools: options?.tools ?? this._options.tools,
+            // 仅在模型原生支持时传递给 requester
+            responseFormat: this._modelInfo.structuredOutput
+                ? formatResponseFormat(
+                      options?.responseFormat ?? this._options.responseFormat
+                  )
+                : undefined,
             id: options?.id ?? this._options.id,
             signal: options?.signal ?? this._options.signal,
             timeout: options?.timeout ?? this._options.timeout
@@ -176,6 +204,23 @@ export class ChatLunaChatModel extends BaseChatModel<ChatLunaModelCallOptions> {
         options: this['ParsedCallOptions'],
         runManager?: CallbackManagerForLLMRun
     ): AsyncGenerator<ChatGenerationChunk> {
+        if (options.responseFormat != null) {
+            // 结构化输出需要完整的结果才能校验，不进行流式输出
+            const result = await this._generate(messages, options, runManager)
+            const generation = result.generations[0]
+
+            yield new ChatGenerationChunk({
+                text: generation.text,
+                message: new AIMessageChunk({
+                    content: generation.message.content,
+                    additional_kwargs: generation.message.additional_kwargs
+                }),
+                generationInfo: generation.generationInfo
+            })
+
+            return
+        }
+
         const withTool = (options.tools?.length ?? 0) > 0
 
         let promptTokens: number
@@ -187,21 +232,14 @@ export class ChatLunaChatModel extends BaseChatModel<ChatLunaModelCallOptions> {
             )
         }
 
-        const stream = await this._createStreamWithRetry({
-            ...this.invocationParams(options),
-            input: messages
-        })
-
         const chunks: ChatGenerationChunk[] = []
-        for await (const chunk of stream) {
-            yield chunk
-
-            const chunkText = chunk.text ?? ''
 
-            if (chunkText != null) {
-                // eslint-disable-next-line no-void
-                void runManager?.handleLLMNewToken(chunkText)
-            }
+        for await (const chunk of this._streamCompletion(
+            messages,
+            options,
+            runManager
+        )) {
+            yield chunk
 
             if (withTool) {
                 chunks.push(chunk)
@@ -218,35 +256,62 @@ export class ChatLunaChatModel extends BaseChatModel<ChatLunaModelCallOptions> {
                 }
             }
 
-            const completionTokens = await this._countMessageTokens(
-                chunk.message
-            )
-
             await runManager?.handleLLMEnd({
                 generations: [],
                 llmOutput: {
-                    tokenUsage: {
-                        completionTokens,
-                        promptTokens,
-                        totalTokens: completionTokens + promptTokens
-                    }
+                    tokenUsage: await this._getTokenUsage(chunk, promptTokens)
                 }
             })
         }
     }
 
+    private async *_streamCompletion(
+        messages: BaseMessage[],
+        options: this['ParsedCallOptions'],
+        runManager?: CallbackManagerForLLMRun
+    ): AsyncGenerator<ChatGenerationChunk> {
+        const stream = await this._createStreamWithRetry({
+            ...this.invocationParams(options),
+            input: this._removeUnsupportedImages(messages)
+        })
+
+        for await (const chunk of stream) {
+            yield chunk
+
+            const chunkText = chunk.text ?? ''
+
+            if (chunkText != null) {
+                // eslint-disable-next-line no-void
+                void runManager?.handleLLMNewToken(chunkText)
+            }
+        }
+    }
+
     async _generate(
         messages: BaseMessage[],
         options: this['ParsedCallOptions'],
         runManager?: CallbackManagerForLLMRun
     ): Promise<ChatResult> {
+        const responseFormat = options.responseFormat
+
+        if (responseFormat != null) {
+            options = { ...options, stream: false }
+
+            if (!this._modelInfo.structuredOutput) {
+                messages = addStructuredOutputPrompt(
+                    messages,
+                    formatResponseFormat(responseFormat)
+                )
+            }
+        }
+
         let promptTokens: number
         ;[messages, promptTokens] = await this.cropMessages(
             messages,
             options['tools']
         )
 
-        const response = await this._generateWithRetry(
+        let response = await this._generateWithRetry(
             messages,
             options,
             runManager
@@ -256,17 +321,22 @@ export class ChatLunaChatModel extends BaseChatModel<ChatLunaModelCallOptions> {
             throw new ChatLunaError(ChatLunaErrorCode.API_REQUEST_FAILED)
         }
 
-        response.generationInfo = response.generationInfo ?? {}
+        const tokenUsage = await this._getTokenUsage(response, promptTokens)
 
-        if (response.generationInfo.tokenUsage == null) {
-            const completionTokens = await this._countMessageTokens(
-                response.message
-            )
-            response.generationInfo.tokenUsage = {
-                completionTokens,
+        if (responseFormat != null) {
+            response = await this._ensureStructuredOutput(
+                messages,
+                response,
+                options,
                 promptTokens,
-                totalTokens: completionTokens + promptTokens
-            }
+                tokenUsage,
+                runManager
+            )
+        }
+
+        response.generationInfo = {
+            ...response.generationInfo,
+            tokenUsage
         }
 
         return {
@@ -275,6 +345,95 @@ export class ChatLunaChatModel extends BaseChatModel<ChatLunaModelCallOptions> {
         }
     }
 
+    private async _ensureStructuredOutput(
+        messages: BaseMessage[],
+        response: ChatGeneration,
+        options: this['ParsedCallOptions'],
+        promptTokens: number,
+        tokenUsage: TokenUsage,
+        runManager?: CallbackManagerForLLMRun
+    ): Promise<ChatGeneration> {
+        const responseFormat = options.responseFormat
+        const maxRepairAttempts = responseFormat.maxRepairAttempts ?? 2
+
+        for (let attempt = 0; ; attempt++) {
+            const text = getMessageContent(response.message.content)
+            const result = parseStructuredOutput(text, responseFormat)
+
+            if (result.success === true) {
+                response.text = result.text
+                response.message.content = result.text
+                response.message.additional_kwargs = {
+                    ...response.message.additional_kwargs,
+                    parsed: result.value
+                }
+
+                return response
+            }
+
+            if (attempt >= maxRepairAttempts) {
+                throw new ChatLunaError(
+                    ChatLunaErrorCode.MODEL_STRUCTURED_OUTPUT_ERROR,
+                    new Error(result.error)
+                )
+            }
+
+            // 将错误的输出和错误信息反馈给模型，让模型修复
+            const repairMessages = createRepairMessages(text, result.error)
+
+            messages = messages.concat(repairMessages)
+
+            response = await this._generateWithRetry(
+                messages,
+                options,
+                runManager
+            )
+
+            if (response == null) {
+                throw new ChatLunaError(ChatLunaErrorCode.API_REQUEST_FAILED)
+            }
+
+            // 修复请求的用量也需要计入，输入为原始的提示词加上目前所有的修复消息
+            for (const message of repairMessages) {
+                promptTokens += await this._countMessageTokens(message)
+            }
+
+            const repairUsage = await this._getTokenUsage(
+                response,
+                promptTokens
+            )
+
+            tokenUsage.promptTokens += repairUsage.promptTokens
+            tokenUsage.completionTokens += repairUsage.completionTokens
+            tokenUsage.totalTokens += repairUsage.totalTokens
+        }
+    }
+
+    /**
+     * Get the token usage reported by the requester,
+     * or estimate it with tiktoken if the platform does not report it.
+     */
+    private async _getTokenUsage(
+        response: ChatGeneration,
+        promptTokens: number
+    ): Promise<TokenUsage> {
+        const tokenUsage: TokenUsage = response.generationInfo?.tokenUsage
+
+        if (tokenUsage != null) {
+            return { ...tokenUsage }
+        }
+
+        const completionTokens = await this._countMessageTokens(
+            response.message
+        )
+
+        return {
+            completionTokens,
+            promptTokens,
+            totalTokens: completionTokens + promptTokens
+        }
+    }
+
     private _generateWithRetry(
         messages: BaseMessage[],
         options: this['ParsedCallOptions'],
@@ -284,7 +443,8 @@ export class ChatLunaChatModel extends BaseChatModel<ChatLunaModelCallOptions> {
             let response: ChatGeneration
 
             if (options.stream) {
-                const stream = this._streamResponseChunks(
+                // 用量由 _generate 统一上报，这里不能再经过 _streamResponseChunks
+                const stream = this._streamCompletion(
                     messages,
                     options,
                     runManager
@@ -295,7 +455,7 @@ export class ChatLunaChatModel extends BaseChatModel<ChatLunaModelCallOptions> {
             } else {
                 response = await this._completion({
                     ...this.invocationParams(options),
-                    input: messages
+                    input: this._removeUnsupportedImages(messages)
                 })
             }
 
@@ -335,6 +495,37 @@ export class ChatLunaChatModel extends BaseChatModel<ChatLunaModelCallOptions> {
         return promise
     }
 
+    /**
+     * Remove the images in the messages if the model does not support image input.
+     * The images in the history should not break the request to a text-only model.
+     */
+    private _removeUnsupportedImages(messages: BaseMessage[]) {
+        if (this._modelInfo.imageInput) {
+            return messages
+        }
+
+        return messages.map((message) => {
+            if (
+                message._getType() !== 'human' ||
+                !((message.additional_kwargs?.images as string[])?.length > 0)
+            ) {
+                return message
+            }
+
+            // 复制消息，不修改历史记录中的消息
+            const additionalKwargs = { ...message.additional_kwargs }
+
+            delete additionalKwargs.images
+
+            return new HumanMessage({
+                content: message.content,
+                name: message.name,
+                id: message.id,
+                additional_kwargs: additionalKwargs
+            })
+        })
+    }
+
     /**
      ** Creates a streaming request with retry.
      * @param request The parameters for creating a completion.
@@ -500,6 +691,20 @@ export class ChatLunaChatModel extends BaseChatModel<ChatLunaModelCallOptions> {
         await this._requester.dispose()
     }
 
+    /**
+     * Create a copy of the model with the default call options overridden.
+     * The model is shared in the client pool, so it cannot be changed in place.
+     */
+    withCallOptions(
+        options: Partial<ChatLunaModelCallOptions>
+    ): ChatLunaChatModel {
+        if (Object.keys(options).length < 1) {
+            return this
+        }
+
+        return new ChatLunaChatModel({ ...this._options, ...options })
+    }
+
     getModelMaxContextSize() {
         if (this._maxModelContextSize != null) {
             return this._maxModelContextSize
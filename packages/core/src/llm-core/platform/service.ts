@@ -7,7 +7,8 @@ import {
 } from 'koishi-plugin-chatluna/llm-core/platform/client'
 import {
     ClientConfig,
-    ClientConfigPool
+    ClientConfigPool,
+    ClientConfigRequestResult
 } from 'koishi-plugin-chatluna/llm-core/platform/config'
 import {
     ChatHubChainInfo,
@@ -15,10 +16,13 @@ import {
     CreateChatHubLLMChainParams,
     CreateVectorStoreFunction,
     CreateVectorStoreParams,
+    ModelAlias,
+    ModelGenerationParams,
     ModelInfo,
     ModelType,
     PlatformClientNames
 } from 'koishi-plugin-chatluna/llm-core/platform/types'
+import { parseRawModelName } from 'koishi-plugin-chatluna/llm-core/utils/count_tokens'
 import { ChatHubLLMChainWrapper } from '../chain/base'
 import { VectorStore } from '@langchain/core/vectorstores'
 import { LRUCache } from 'lru-cache'
@@ -35,6 +39,7 @@ export class PlatformService {
     private static _models: Record<string, ModelInfo[]> = {}
     private static _chatChains: Record<string, ChatHubChainInfo> = {}
     private static _vectorStore: Record<string, CreateVectorStoreFunction> = {}
+    private static _modelAliases: Record<string, ModelAlias> = {}
 
     private static _tmpVectorStores = new LRUCache<string, VectorStore>({
         max: 10
@@ -176,10 +181,64 @@ export class PlatformService {
         return PlatformService._configPools[platform]?.getConfigs() ?? []
     }
 
-    resolveModel(platform: PlatformClientNames, name: string) {
+    getConfigPlatforms() {
+        return Object.keys(PlatformService._configPools)
+    }
+
+    resolveModel(platform: PlatformClientNames, name: string): ModelInfo {
+        if (platform === 'alias') {
+            const [targetPlatform, targetName] = parseRawModelName(
+                this.resolveModelAlias(platform + '/' + name)[0]
+            )
+
+            return targetPlatform === 'alias'
+                ? undefined
+                : this.resolveModel(targetPlatform, targetName)
+        }
+
         return PlatformService._models[platform]?.find((m) => m.name === name)
     }
 
+    setModelAliases(aliases: ModelAlias[]) {
+        PlatformService._modelAliases = {}
+
+        for (const alias of aliases) {
+            PlatformService._modelAliases[alias.name] = alias
+        }
+    }
+
+    getModelAliases() {
+        return Object.values(PlatformService._modelAliases)
+    }
+
+    /**
+     * Resolve the `alias/<name>` model to the target model and the bundled
+     * generation parameters. Other models are returned as is.
+     */
+    resolveModelAlias(model: string): [string, ModelGenerationParams] {
+        let params: ModelGenerationParams = {}
+
+        // 别名可以指向另一个别名，限制深度以避免循环引用
+        for (let i = 0; i < 8; i++) {
+            const [platform, name] = parseRawModelName(model)
+
+            const alias =
+                platform === 'alias'
+                    ? PlatformService._modelAliases[name]
+                    : undefined
+
+            if (alias == null) {
+                break
+            }
+
+            // 外层别名的参数优先
+            params = Object.assign(pickGenerationParams(alias), params)
+            model = alias.model
+        }
+
+        return [model, params]
+    }
+
     getAllModels(type: ModelType) {
         const allModel: string[] = []
 
@@ -193,6 +252,12 @@ export class PlatformService {
             }
         }
 
+        if (type === ModelType.all || type === ModelType.llm) {
+            for (const name in PlatformService._modelAliases) {
+                allModel.push('alias/' + name)
+            }
+        }
+
         return allModel
     }
 
@@ -215,6 +280,23 @@ export class PlatformService {
         return pool.markConfigStatus(config, isAvailable)
     }
 
+    acquireConfig(config: ClientConfig) {
+        PlatformService._configPools[config.platform]?.acquireConfig(config)
+    }
+
+    releaseConfig(config: ClientConfig) {
+        PlatformService._configPools[config.platform]?.releaseConfig(config)
+    }
+
+    reportConfigResult(
+        config: ClientConfig,
+        result: ClientConfigRequestResult
+    ) {
+        const pool = PlatformService._configPools[config.platform]
+
+        return pool?.reportResult(config, result) ?? false
+    }
+
     async createVectorStore(name: string, params: CreateVectorStoreParams) {
         const vectorStoreRetriever = PlatformService._vectorStore[name]
 
@@ -373,6 +455,63 @@ export class PlatformService {
     }
 }
 
+const generationParamKeys: (keyof ModelGenerationParams)[] = [
+    'temperature',
+    'topP',
+    'maxTokens',
+    'stop',
+    'frequencyPenalty',
+    'presencePenalty'
+]
+
+export function pickGenerationParams(
+    source: ModelGenerationParams
+): ModelGenerationParams {
+    const params: ModelGenerationParams = {}
+
+    for (const key of generationParamKeys) {
+        const value = source?.[key]
+
+        if (value == null || (Array.isArray(value) && value.length < 1)) {
+            continue
+        }
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        params[key] = value as any
+    }
+
+    return params
+}
+
+const modelParamRanges: Record<
+    Exclude<keyof ModelGenerationParams, 'stop'>,
+    [number, number]
+> = {
+    temperature: [0, 2],
+    topP: [0, 1],
+    maxTokens: [1, Infinity],
+    frequencyPenalty: [-2, 2],
+    presencePenalty: [-2, 2]
+}
+
+export function findInvalidModelParam(
+    params: ModelGenerationParams
+): [string, number] | undefined {
+    for (const [key, [min, max]] of Object.entries(modelParamRanges)) {
+        const value = params?.[key] as number
+
+        if (
+            value != null &&
+            (typeof value !== 'number' ||
+                isNaN(value) ||
+                value < min ||
+                value > max)
+        ) {
+            return [key, value]
+        }
+    }
+}
+
 declare module 'koishi' {
     interface Events {
         'chatluna/chat-chain-added': (
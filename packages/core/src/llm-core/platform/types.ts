@@ -2,7 +2,11 @@ import {
     BufferMemory,
     ConversationSummaryMemory
 } from 'koishi-plugin-chatluna/llm-core/memory/langchain'
-import { ChatHubBaseEmbeddings, ChatLunaChatModel } from './model'
+import {
+    ChatHubBaseEmbeddings,
+    ChatLunaChatModel,
+    ChatLunaModelCallOptions
+} from './model'
 import { ChatHubLLMChainWrapper } from '../chain/base'
 import { VectorStore } from '@langchain/core/vectorstores'
 import { StructuredTool } from '@langchain/core/tools'
@@ -40,6 +44,31 @@ export interface CreateChatHubLLMChainParams {
     vectorStoreName?: string
 }
 
+export interface TokenUsage {
+    promptTokens: number
+    completionTokens: number
+    totalTokens: number
+}
+
+export type ModelGenerationParams = Pick<
+    ChatLunaModelCallOptions,
+    | 'temperature'
+    | 'topP'
+    | 'maxTokens'
+    | 'stop'
+    | 'frequencyPenalty'
+    | 'presencePenalty'
+>
+
+/**
+ * A virtual model `alias/<name>`, resolving to the target model
+ * with the bundled generation parameters.
+ */
+export interface ModelAlias extends ModelGenerationParams {
+    name: string
+    model: string
+}
+
 export interface ChatHubTool {
     createTool: (
         params: CreateToolParams,
@@ -69,6 +98,12 @@ export interface ModelInfo {
 
     functionCall?: boolean
 
+    // 是否原生支持结构化输出（JSON schema）
+    structuredOutput?: boolean
+
+    // 是否支持图片输入
+    imageInput?: boolean
+
     supportMode?: string[]
 }
 
@@ -84,10 +84,39 @@ function loadYamlPreset(rawText: string): PresetTemplate {
         authorsNote,
         knowledge: rawJson?.knowledge,
         version: rawJson?.version,
+        modelConfig: parseModelConfig(rawJson.model),
+        chatMode: rawJson.chat_mode,
         config: rawJson.config ?? {}
     }
 }
 
+function parseModelConfig(
+    rawConfig: RawPreset['model']
+): PresetTemplate['modelConfig'] {
+    if (rawConfig == null) {
+        return undefined
+    }
+
+    const toArray = (value: string | string[]) =>
+        value == null ? undefined : Array.isArray(value) ? value : [value]
+
+    const params = rawConfig.params ?? {}
+
+    return {
+        params: {
+            temperature: params.temperature,
+            topP: params.top_p,
+            maxTokens: params.max_tokens,
+            stop: toArray(params.stop),
+            frequencyPenalty: params.frequency_penalty,
+            presencePenalty: params.presence_penalty
+        },
+        preferredModels: toArray(rawConfig.preferred),
+        requiredModels: toArray(rawConfig.required),
+        minContextSize: rawConfig.min_context_size
+    }
+}
+
 function loadTxtPreset(rawText: string): PresetTemplate {
     const triggerKeyword: string[] = []
     const messages: BaseMessage[] = []
@@ -1,5 +1,6 @@
 import { BaseMessage } from '@langchain/core/messages'
 import type { PostHandler } from '../../utils/types'
+import type { ModelGenerationParams } from '../platform/types'
 
 export interface RawPreset {
     keywords: string[]
@@ -45,6 +46,20 @@ export interface RawPreset {
     version?: string
     authors_note?: AuthorsNote
     knowledge?: KnowledgeConfig
+    model?: {
+        params?: {
+            temperature?: number
+            top_p?: number
+            max_tokens?: number
+            stop?: string | string[]
+            frequency_penalty?: number
+            presence_penalty?: number
+        }
+        preferred?: string | string[]
+        required?: string | string[]
+        min_context_size?: number
+    }
+    chat_mode?: string
     config?: {
         longMemoryPrompt?: string
         loreBooksPrompt?: string
@@ -93,6 +108,9 @@ export interface PresetTemplate {
     }
     authorsNote?: AuthorsNote
     knowledge?: KnowledgeConfig
+    modelConfig?: PresetModelConfig
+    // 预设要求的聊天模式
+    chatMode?: string
     config: {
         longMemoryPrompt?: string
         loreBooksPrompt?: string
@@ -101,6 +119,15 @@ export interface PresetTemplate {
     }
 }
 
+export interface PresetModelConfig {
+    params?: ModelGenerationParams
+    // 推荐使用的模型，不匹配时仅提示
+    preferredModels?: string[]
+    // 必须使用的模型，不匹配时会自动切换
+    requiredModels?: string[]
+    minContextSize?: number
+}
+
 export interface KnowledgeConfig {
     knowledge: string[] | string
     prompt?: string
@@ -0,0 +1,326 @@
+import {
+    AIMessage,
+    BaseMessage,
+    HumanMessage,
+    SystemMessage
+} from '@langchain/core/messages'
+import { ZodType } from 'zod'
+import { zodToJsonSchema } from 'zod-to-json-schema'
+import { ChatLunaResponseFormat } from 'koishi-plugin-chatluna/llm-core/platform/api'
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type JSONSchema = Record<string, any>
+
+export type StructuredOutputResult =
+    | { success: true; value: unknown; text: string }
+    | { success: false; error: string }
+
+export function isZodSchema(schema: unknown): schema is ZodType {
+    return schema instanceof ZodType
+}
+
+/**
+ * Normalize the response format, converting the zod schema to JSON schema.
+ */
+export function formatResponseFormat(
+    format: ChatLunaResponseFormat
+): ChatLunaResponseFormat {
+    if (format == null) {
+        return undefined
+    }
+
+    let schema = format.schema
+
+    if (isZodSchema(schema)) {
+        // 展开所有引用，部分模型不支持 $ref
+        schema = zodToJsonSchema(schema, { $refStrategy: 'none' })
+        delete schema['$schema']
+    }
+
+    return {
+        ...format,
+        name: format.name ?? 'response',
+        schema
+    }
+}
+
+/**
+ * Add the output instruction for models without native structured output.
+ */
+export function addStructuredOutputPrompt(
+    messages: BaseMessage[],
+    format: ChatLunaResponseFormat
+): BaseMessage[] {
+    const prompt = formatStructuredOutputPrompt(format)
+
+    const [first, ...rest] = messages
+
+    if (first?.getType() === 'system' && typeof first.content === 'string') {
+        return [
+            new SystemMessage({
+                content: first.content + '\n\n' + prompt,
+                name: first.name,
+                additional_kwargs: first.additional_kwargs
+            }),
+            ...rest
+        ]
+    }
+
+    return [new SystemMessage(prompt), ...messages]
+}
+
+export function formatStructuredOutputPrompt(format: ChatLunaResponseFormat) {
+    return (
+        'You must respond with a single JSON value that matches the following JSON schema. ' +
+        'Do not include any explanation or markdown code fences.\n\n' +
+        JSON.stringify(format.schema)
+    )
+}
+
+export function createRepairMessages(
+    output: string,
+    error: string
+): BaseMessage[] {
+    return [
+        new AIMessage(output),
+        new HumanMessage(
+            `Your previous response is not valid: ${error}\nRespond again with only the corrected JSON value that matches the schema.`
+        )
+    ]
+}
+
+/**
+ * Extract, parse and validate the JSON output of the model.
+ */
+export function parseStructuredOutput(
+    text: string,
+    format: ChatLunaResponseFormat
+): StructuredOutputResult {
+    const json = extractJSON(text)
+
+    let value: unknown
+
+    try {
+        value = JSON.parse(json)
+    } catch (e) {
+        return { success: false, error: `Invalid JSON: ${e.message}` }
+    }
+
+    if (isZodSchema(format.schema)) {
+        const result = format.schema.safeParse(value)
+
+        if (!result.success) {
+            return {
+                success: false,
+                error: result.error.issues
+                    .map(
+                        (issue) =>
+                            `$${issue.path.map((path) => '.' + path).join('')}: ${issue.message}`
+                    )
+                    .join('; ')
+            }
+        }
+
+        return { success: true, value: result.data, text: json }
+    }
+
+    const errors = validateJSONSchema(value, format.schema)
+
+    if (errors.length > 0) {
+        return { success: false, error: errors.join('; ') }
+    }
+
+    return { success: true, value, text: json }
+}
+
+function extractJSON(text: string) {
+    text = text.trim()
+
+    const codeBlock = text.match(/```(?:json)?\s*([\s\S]*?)```/)
+
+    if (codeBlock) {
+        return codeBlock[1].trim()
+    }
+
+    if (text.startsWith('{') || text.startsWith('[')) {
+        return text
+    }
+
+    // 尝试截取第一个 JSON 对象或数组
+    const start = text.search(/[[{]/)
+    const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'))
+
+    if (start === -1 || end < start) {
+        return text
+    }
+
+    return text.slice(start, end + 1)
+}
+
+/**
+ * A minimal JSON schema validator, covering the keywords commonly used
+ * for structured output.
+ */
+export function validateJSONSchema(
+    value: unknown,
+    schema: JSONSchema,
+    path: string = '$',
+    root: JSONSchema = schema
+): string[] {
+    if (schema == null || typeof schema !== 'object') {
+        return []
+    }
+
+    if (typeof schema.$ref === 'string') {
+        const resolved = resolveJSONSchemaRef(root, schema.$ref)
+
+        if (resolved == null) {
+            return [`${path}: cannot resolve the reference ${schema.$ref}`]
+        }
+
+        return validateJSONSchema(value, resolved, path, root)
+    }
+
+    if (schema.anyOf || schema.oneOf) {
+        const schemas: JSONSchema[] = schema.anyOf ?? schema.oneOf
+
+        const matched = schemas.some(
+            (subSchema) =>
+                validateJSONSchema(value, subSchema, path, root).length < 1
+        )
+
+        return matched ? [] : [`${path}: does not match any allowed schema`]
+    }
+
+    if (schema.allOf) {
+        return (schema.allOf as JSONSchema[]).flatMap((subSchema) =>
+            validateJSONSchema(value, subSchema, path, root)
+        )
+    }
+
+    if ('const' in schema && value !== schema.const) {
+        return [`${path}: must be ${JSON.stringify(schema.const)}`]
+    }
+
+    if (
+        Array.isArray(schema.enum) &&
+        !schema.enum.some(
+            (item: unknown) => JSON.stringify(item) === JSON.stringify(value)
+        )
+    ) {
+        return [`${path}: must be one of ${JSON.stringify(schema.enum)}`]
+    }
+
+    if (schema.type != null) {
+        const types: string[] = Array.isArray(schema.type)
+            ? schema.type
+            : [schema.type]
+
+        if (!types.some((type) => checkType(value, type))) {
+            return [`${path}: must be ${types.join(' or ')}`]
+        }
+    }
+
+    const errors: string[] = []
+
+    if (Array.isArray(value)) {
+        if (schema.minItems != null && value.length < schema.minItems) {
+            errors.push(`${path}: must have at least ${schema.minItems} items`)
+        }
+
+        if (schema.maxItems != null && value.length > schema.maxItems) {
+            errors.push(`${path}: must have at most ${schema.maxItems} items`)
+        }
+
+        if (schema.items != null && !Array.isArray(schema.items)) {
+            value.forEach((item, index) => {
+                errors.push(
+                    ...validateJSONSchema(
+                        item,
+                        schema.items,
+                        `${path}[${index}]`,
+                        root
+                    )
+                )
+            })
+        }
+    } else if (value != null && typeof value === 'object') {
+        const properties: Record<string, JSONSchema> = schema.properties ?? {}
+
+        for (const key of (schema.required as string[]) ?? []) {
+            if (!(key in value)) {
+                errors.push(`${path}.${key}: is required`)
+            }
+        }
+
+        for (const [key, propertyValue] of Object.entries(value)) {
+            if (properties[key] != null) {
+                errors.push(
+                    ...validateJSONSchema(
+                        propertyValue,
+                        properties[key],
+                        `${path}.${key}`,
+                        root
+                    )
+                )
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${path}.${key}: is not allowed`)
+            } else if (typeof schema.additionalProperties === 'object') {
+                errors.push(
+                    ...validateJSONSchema(
+                        propertyValue,
+                        schema.additionalProperties,
+                        `${path}.${key}`,
+                        root
+                    )
+                )
+            }
+        }
+    }
+
+    return errors
+}
+
+// 只支持同一个 schema 内的引用，例如 #/definitions/item
+function resolveJSONSchemaRef(root: JSONSchema, ref: string) {
+    if (!ref.startsWith('#')) {
+        return undefined
+    }
+
+    let current: JSONSchema = root
+
+    for (const segment of ref.slice(1).split('/').slice(1)) {
+        const key = decodeURIComponent(segment)
+            .replace(/~1/g, '/')
+            .replace(/~0/g, '~')
+
+        current = current?.[key]
+    }
+
+    return current
+}
+
+function checkType(value: unknown, type: string) {
+    switch (type) {
+        case 'string':
+            return typeof value === 'string'
+        case 'number':
+            return typeof value === 'number'
+        case 'integer':
+            return Number.isInteger(value)
+        case 'boolean':
+            return typeof value === 'boolean'
+        case 'array':
+            return Array.isArray(value)
+        case 'object':
+            return (
+                value != null &&
+                typeof value === 'object' &&
+                !Array.isArray(value)
+            )
+        case 'null':
+            return value === null
+        default:
+            return true
+    }
+}
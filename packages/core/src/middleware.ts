@@ -17,8 +17,13 @@ import { apply as clone_preset } from './middlewares/clone_preset'
 import { apply as cooldown_time } from './middlewares/cooldown_time'
 import { apply as create_auth_group } from './middlewares/create_auth_group'
 import { apply as create_room } from './middlewares/create_room'
+import { apply as delete_chat_message } from './middlewares/delete_chat_message'
 import { apply as delete_preset } from './middlewares/delete_preset'
 import { apply as delete_room } from './middlewares/delete_room'
+import { apply as edit_chat_message } from './middlewares/edit_chat_message'
+import { apply as export_room } from './middlewares/export_room'
+import { apply as fork_room } from './middlewares/fork_room'
+import { apply as import_room } from './middlewares/import_room'
 import { apply as invite_room } from './middlewares/invite_room'
 import { apply as join_room } from './middlewares/join_room'
 import { apply as kick_member } from './middlewares/kick_member'
@@ -30,10 +35,15 @@ import { apply as list_all_model } from './middlewares/list_all_model'
 import { apply as list_all_preset } from './middlewares/list_all_preset'
 import { apply as list_all_vectorstore } from './middlewares/list_all_vectorstore'
 import { apply as list_auth_group } from './middlewares/list_auth_group'
+import { apply as list_chat_history } from './middlewares/list_chat_history'
+import { apply as list_chat_queue } from './middlewares/list_chat_queue'
+import { apply as list_provider_status } from './middlewares/list_provider_status'
 import { apply as list_room } from './middlewares/list_room'
 import { apply as mute_user } from './middlewares/mute_user'
 import { apply as query_balance } from './middlewares/query_balance'
+import { apply as query_usage } from './middlewares/query_usage'
 import { apply as read_chat_message } from './middlewares/read_chat_message'
+import { apply as regenerate_chat } from './middlewares/regenerate_chat'
 import { apply as render_message } from './middlewares/render_message'
 import { apply as request_model } from './middlewares/request_model'
 import { apply as resolve_model } from './middlewares/resolve_model'
@@ -42,6 +52,7 @@ import { apply as rollback_chat } from './middlewares/rollback_chat'
 import { apply as room_info } from './middlewares/room_info'
 import { apply as room_permission } from './middlewares/room_permission'
 import { apply as set_auth_group } from './middlewares/set_auth_group'
+import { apply as set_auth_group_price } from './middlewares/set_auth_group_price'
 import { apply as set_auto_update_room } from './middlewares/set_auto_update_room'
 import { apply as set_balance } from './middlewares/set_balance'
 import { apply as set_default_embeddings } from './middlewares/set_default_embeddings'
@@ -49,6 +60,7 @@ import { apply as set_default_vectorstore } from './middlewares/set_default_vect
 import { apply as set_preset } from './middlewares/set_preset'
 import { apply as set_room } from './middlewares/set_room'
 import { apply as stop_chat } from './middlewares/stop_chat'
+import { apply as swipe_chat } from './middlewares/swipe_chat'
 import { apply as switch_room } from './middlewares/switch_room'
 import { apply as thinking_message_recall } from './middlewares/thinking_message_recall'
 import { apply as thinking_message_send } from './middlewares/thinking_message_send'
@@ -78,8 +90,13 @@ export async function middleware(ctx: Context, config: Config) {
             cooldown_time,
             create_auth_group,
             create_room,
+            delete_chat_message,
             delete_preset,
             delete_room,
+            edit_chat_message,
+            export_room,
+            fork_room,
+            import_room,
             invite_room,
             join_room,
             kick_member,
@@ -91,10 +108,15 @@ export async function middleware(ctx: Context, config: Config) {
             list_all_preset,
             list_all_vectorstore,
             list_auth_group,
+            list_chat_history,
+            list_chat_queue,
+            list_provider_status,
             list_room,
             mute_user,
             query_balance,
+            query_usage,
             read_chat_message,
+            regenerate_chat,
             render_message,
             request_model,
             resolve_model,
@@ -103,6 +125,7 @@ export async function middleware(ctx: Context, config: Config) {
             room_info,
             room_permission,
             set_auth_group,
+            set_auth_group_price,
             set_auto_update_room,
             set_balance,
             set_default_embeddings,
@@ -110,6 +133,7 @@ export async function middleware(ctx: Context, config: Config) {
             set_preset,
             set_room,
             stop_chat,
+            swipe_chat,
             switch_room,
             thinking_message_recall,
             thinking_message_send,
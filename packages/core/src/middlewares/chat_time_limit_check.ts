@@ -24,9 +24,10 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
                 return await oldChatLimitCheck(session, context)
             }
 
-            const {
-                room: { model }
-            } = context.options
+            const { room } = context.options
+
+            // 别名房间使用实际的模型查找平台的配额和权限
+            const [model] = platformService.resolveModelAlias(room.model)
 
             // check account balance
             const authUser = await authService.getUser(session)
@@ -49,11 +50,13 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
 
             if (
                 authGroup.supportModels != null &&
-                authGroup.supportModels.find((m) => m === model) == null
+                authGroup.supportModels.find(
+                    (m) => m === model || m === room.model
+                ) == null
             ) {
                 context.message = session.text('chatluna.unsupported_model', [
                     authGroup.name,
-                    model
+                    room.model
                 ])
                 return ChainMiddlewareRunStatus.STOP
             }
@@ -106,9 +109,13 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
         context: ChainMiddlewareContext
     ) {
         const {
-            room: { model, conversationId }
+            room: { conversationId }
         } = context.options
 
+        const [model] = platformService.resolveModelAlias(
+            context.options.room.model
+        )
+
         const config = platformService.getConfigs(
             parseRawModelName(model)[0]
         )?.[0]
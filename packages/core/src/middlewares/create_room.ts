@@ -1,6 +1,9 @@
 import { randomUUID } from 'crypto'
 import { Context, Logger, Session } from 'koishi'
-import { ModelType } from 'koishi-plugin-chatluna/llm-core/platform/types'
+import {
+    ModelGenerationParams,
+    ModelType
+} from 'koishi-plugin-chatluna/llm-core/platform/types'
 import { createLogger } from 'koishi-plugin-chatluna/utils/logger'
 import {
     ChainMiddlewareContext,
@@ -9,6 +12,7 @@ import {
     ChatChain
 } from '../chains/chain'
 import {
+    applyPresetRequirements,
     createConversationRoom,
     getConversationRoomCount
 } from '../chains/rooms'
@@ -380,6 +384,12 @@ async function createRoom(
         updatedTime: new Date()
     }
 
+    const notices = await applyPresetRequirements(ctx, session, createRoom)
+
+    if (notices.length > 0) {
+        await context.send(notices.join('\n'))
+    }
+
     await createConversationRoom(ctx, session, createRoom)
 
     if (visibility === 'template') {
@@ -407,6 +417,10 @@ declare module '../chains/chain' {
             id?: string
             password?: string
             visibility?: string
+            fallbackModels?: string[]
+            modelParams?: ModelGenerationParams
+            resetModelParams?: boolean
+            reasoningDisplayMode?: string
         }
     }
 }
@@ -0,0 +1,117 @@
+import { Context } from 'koishi'
+import { Config } from '../config'
+import { ChainMiddlewareRunStatus, ChatChain } from '../chains/chain'
+import {
+    checkAdmin,
+    getAllJoinedConversationRoom,
+    getConversationMessages,
+    outdateConversationSummary
+} from '../chains/rooms'
+
+export function apply(ctx: Context, config: Config, chain: ChatChain) {
+    chain
+        .middleware('delete_chat_message', async (session, context) => {
+            const {
+                command,
+                options: { messageId }
+            } = context
+
+            if (command !== 'delete_message')
+                return ChainMiddlewareRunStatus.SKIPPED
+
+            let room = context.options.room
+
+            if (room == null && context.options.room_resolve != null) {
+                // 尝试完整搜索一次
+
+                const rooms = await getAllJoinedConversationRoom(
+                    ctx,
+                    session,
+                    true
+                )
+
+                const roomId = parseInt(context.options.room_resolve?.name)
+
+                room = rooms.find(
+                    (room) =>
+                        room.roomName === context.options.room_resolve?.name ||
+                        room.roomId === roomId
+                )
+            }
+
+            if (room == null) {
+                context.message = session.text('.room_not_found')
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            if (
+                room.roomMasterId !== session.userId &&
+                !(await checkAdmin(session))
+            ) {
+                context.message = session.text('.not_room_master')
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            const messages = await getConversationMessages(
+                ctx,
+                room.conversationId
+            )
+
+            // 允许使用 chatluna.chat.history 中显示的短 id
+            const matched = messages.filter((message) =>
+                message.id.startsWith(messageId)
+            )
+
+            if (matched.length !== 1) {
+                context.message = session.text('.message_not_found', [
+                    messageId
+                ])
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            const message = matched[0]
+            const index = messages.indexOf(message)
+            const child = messages[index + 1]
+
+            // 将后一条消息接到被删除消息的 parent 上，保持链表完整
+            if (child != null) {
+                await ctx.database.upsert('chathub_message', [
+                    {
+                        ...child,
+                        parent: message.parent ?? null
+                    }
+                ])
+            }
+
+            await ctx.database.remove('chathub_message', {
+                id: message.id
+            })
+
+            await outdateConversationSummary(ctx, room.conversationId)
+
+            // 让缓存的聊天记录和总结重新加载
+            await ctx.database.upsert('chathub_conversation', [
+                {
+                    id: room.conversationId,
+                    latestId:
+                        child == null
+                            ? (message.parent ?? null)
+                            : messages[messages.length - 1].id,
+                    updatedAt: new Date()
+                }
+            ])
+
+            await ctx.chatluna.clearCache(room)
+
+            context.message = session.text('.success', [message.id.slice(0, 8)])
+
+            return ChainMiddlewareRunStatus.STOP
+        })
+        .after('lifecycle-handle_command')
+}
+
+declare module '../chains/chain' {
+    interface ChainMiddlewareName {
+        delete_chat_message: never
+    }
+}
@@ -0,0 +1,154 @@
+import { Context, h } from 'koishi'
+import { Config } from '../config'
+import { ChainMiddlewareRunStatus, ChatChain } from '../chains/chain'
+import {
+    getAllJoinedConversationRoom,
+    getConversationMessages
+} from '../chains/rooms'
+import { getMessageContent } from 'koishi-plugin-chatluna/utils/string'
+import { ChatLunaMessage } from '../llm-core/memory/message/database_history'
+import { ConversationRoom, ExportedConversation } from '../types'
+
+export function apply(ctx: Context, config: Config, chain: ChatChain) {
+    chain
+        .middleware('export_room', async (session, context) => {
+            const { command } = context
+
+            if (command !== 'export_room')
+                return ChainMiddlewareRunStatus.SKIPPED
+
+            let room = context.options.room
+
+            if (room == null && context.options.room_resolve != null) {
+                // 尝试完整搜索一次
+
+                const rooms = await getAllJoinedConversationRoom(
+                    ctx,
+                    session,
+                    true
+                )
+
+                const roomId = parseInt(context.options.room_resolve?.name)
+
+                room = rooms.find(
+                    (room) =>
+                        room.roomName === context.options.room_resolve?.name ||
+                        room.roomId === roomId
+                )
+            }
+
+            if (room == null) {
+                context.message = session.text('.room_not_found')
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            const format = context.options.exportFormat ?? 'json'
+
+            if (format !== 'json' && format !== 'markdown') {
+                context.message = session.text('.invalid_format', [format])
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            const messages = await getConversationMessages(
+                ctx,
+                room.conversationId
+            )
+
+            if (messages.length < 1) {
+                context.message = session.text('.no_chat_history')
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            const exported = await exportConversation(ctx, room, messages)
+
+            const content =
+                format === 'json'
+                    ? JSON.stringify(exported, null, 2)
+                    : formatMarkdown(exported)
+
+            context.message = [
+                h.file(
+                    Buffer.from(content, 'utf-8'),
+                    format === 'json' ? 'application/json' : 'text/markdown',
+                    {
+                        name: `${room.roomName}.${format === 'json' ? 'json' : 'md'}`
+                    }
+                )
+            ]
+
+            return ChainMiddlewareRunStatus.STOP
+        })
+        .after('lifecycle-handle_command')
+}
+
+async function exportConversation(
+    ctx: Context,
+    room: ConversationRoom,
+    messages: ChatLunaMessage[]
+): Promise<ExportedConversation> {
+    const conversation = (
+        await ctx.database.get('chathub_conversation', {
+            id: room.conversationId
+        })
+    )?.[0]
+
+    return {
+        format: 'chatluna-conversation',
+        version: 1,
+        exportedAt: new Date().toISOString(),
+        room: {
+            roomName: room.roomName,
+            preset: room.preset,
+            model: room.model,
+            fallbackModels: room.fallbackModels,
+            modelParams: room.modelParams,
+            reasoningDisplayMode: room.reasoningDisplayMode,
+            chatMode: room.chatMode
+        },
+        conversation: {
+            additional_kwargs:
+                conversation?.additional_kwargs != null
+                    ? JSON.parse(conversation.additional_kwargs)
+                    : undefined
+        },
+        messages: messages.map((message) => ({
+            id: message.id,
+            rawId: message.rawId ?? undefined,
+            role: message.role,
+            content: JSON.parse(message.text as string),
+            additional_kwargs:
+                message.additional_kwargs != null
+                    ? JSON.parse(message.additional_kwargs)
+                    : undefined,
+            parent: message.parent ?? undefined
+        }))
+    }
+}
+
+function formatMarkdown(exported: ExportedConversation) {
+    const buffer = [
+        `# ${exported.room.roomName}`,
+        '',
+        `- preset: ${exported.room.preset}`,
+        `- model: ${exported.room.model}`,
+        `- chatMode: ${exported.room.chatMode}`,
+        `- exportedAt: ${exported.exportedAt}`
+    ]
+
+    for (const message of exported.messages) {
+        buffer.push('', `### ${message.role}`, '')
+        buffer.push(getMessageContent(message.content))
+    }
+
+    return buffer.join('\n') + '\n'
+}
+
+declare module '../chains/chain' {
+    interface ChainMiddlewareName {
+        export_room: never
+    }
+
+    interface ChainMiddlewareContextOptions {
+        exportFormat?: string
+    }
+}
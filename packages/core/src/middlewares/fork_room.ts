@@ -0,0 +1,116 @@
+import { randomUUID } from 'crypto'
+import { Context } from 'koishi'
+import { Config } from '../config'
+import { ChainMiddlewareRunStatus, ChatChain } from '../chains/chain'
+import {
+    createConversationRoom,
+    createConversationWithMessages,
+    getAllJoinedConversationRoom,
+    getConversationMessages,
+    getConversationRoomCount
+} from '../chains/rooms'
+import { ConversationRoom } from '../types'
+
+export function apply(ctx: Context, config: Config, chain: ChatChain) {
+    chain
+        .middleware('fork_room', async (session, context) => {
+            const { command } = context
+
+            if (command !== 'fork_room') return ChainMiddlewareRunStatus.SKIPPED
+
+            let room = context.options.room
+
+            if (room == null && context.options.room_resolve != null) {
+                // 尝试完整搜索一次
+
+                const rooms = await getAllJoinedConversationRoom(
+                    ctx,
+                    session,
+                    true
+                )
+
+                const roomId = parseInt(context.options.room_resolve?.name)
+
+                room = rooms.find(
+                    (room) =>
+                        room.roomName === context.options.room_resolve?.name ||
+                        room.roomId === roomId
+                )
+            }
+
+            if (room == null) {
+                context.message = session.text('.room_not_found')
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            const messages = await getConversationMessages(
+                ctx,
+                room.conversationId
+            )
+
+            const forkAt = context.options.forkAtMessage ?? messages.length
+
+            if (forkAt < 0 || forkAt > messages.length) {
+                context.message = session.text('.invalid_index', [
+                    forkAt,
+                    messages.length
+                ])
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            const conversation = (
+                await ctx.database.get('chathub_conversation', {
+                    id: room.conversationId
+                })
+            )?.[0]
+
+            const forkRoom: ConversationRoom = {
+                conversationId: randomUUID(),
+                model: room.model,
+                fallbackModels: room.fallbackModels,
+                modelParams: room.modelParams,
+                reasoningDisplayMode: room.reasoningDisplayMode,
+                preset: room.preset,
+                roomName:
+                    context.options.forkRoomName ?? `${room.roomName}-fork`,
+                roomMasterId: session.userId,
+                roomId: (await getConversationRoomCount(ctx)) + 1,
+                visibility: 'private',
+                chatMode: room.chatMode,
+                password: null,
+                updatedTime: new Date(),
+                forkFromRoomId: room.roomId,
+                forkAtMessage: forkAt
+            }
+
+            await createConversationWithMessages(
+                ctx,
+                forkRoom.conversationId,
+                messages.slice(0, forkAt),
+                conversation?.additional_kwargs
+            )
+
+            await createConversationRoom(ctx, session, forkRoom)
+
+            context.message = session.text('.success', [
+                room.roomName,
+                forkAt,
+                forkRoom.roomId,
+                forkRoom.roomName
+            ])
+
+            return ChainMiddlewareRunStatus.STOP
+        })
+        .after('lifecycle-handle_command')
+}
+
+declare module '../chains/chain' {
+    interface ChainMiddlewareName {
+        fork_room: never
+    }
+
+    interface ChainMiddlewareContextOptions {
+        forkAtMessage?: number
+        forkRoomName?: string
+    }
+}
@@ -0,0 +1,288 @@
+import { randomUUID } from 'crypto'
+import { Context, h } from 'koishi'
+import { Config } from '../config'
+import { ChainMiddlewareRunStatus, ChatChain } from '../chains/chain'
+import {
+    createConversationRoom,
+    createConversationWithMessages,
+    getConversationRoomCount
+} from '../chains/rooms'
+import { ChatLunaMessage } from '../llm-core/memory/message/database_history'
+import { ModelType } from '../llm-core/platform/types'
+import {
+    findInvalidModelParam,
+    pickGenerationParams
+} from '../llm-core/platform/service'
+import { parseRawModelName } from '../llm-core/utils/count_tokens'
+import {
+    ConversationRoom,
+    ExportedConversation,
+    ExportedMessage
+} from '../types'
+import { logger } from '..'
+
+export function apply(ctx: Context, config: Config, chain: ChatChain) {
+    chain
+        .middleware('import_room', async (session, context) => {
+            const { command } = context
+
+            if (command !== 'import_room')
+                return ChainMiddlewareRunStatus.SKIPPED
+
+            let content: string
+
+            try {
+                content = await readFileContent(ctx, [
+                    ...(session.quote?.elements ?? []),
+                    ...(session.elements ?? [])
+                ])
+
+                if (content == null) {
+                    await context.send(session.text('.enter_file'))
+
+                    const result = await session.prompt(1000 * 60)
+
+                    if (result == null) {
+                        context.message = session.text('.timeout')
+                        return ChainMiddlewareRunStatus.STOP
+                    } else if (result === 'Q') {
+                        context.message = session.text('.cancelled')
+                        return ChainMiddlewareRunStatus.STOP
+                    }
+
+                    content =
+                        (await readFileContent(ctx, h.parse(result))) ??
+                        h
+                            .select(h.parse(result), 'text')
+                            .map((element) => element.attrs.content)
+                            .join('')
+                }
+            } catch (e) {
+                logger.error(e)
+                context.message = session.text('.download_failed')
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            let exported: ExportedConversation
+
+            try {
+                exported = parseConversation(content)
+            } catch (e) {
+                logger.error(e)
+                context.message = session.text('.invalid_file')
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            if (!isValidConversation(exported)) {
+                context.message = session.text('.invalid_file')
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            const model = exported.room.model ?? config.defaultModel
+            const preset = exported.room.preset ?? config.defaultPreset
+            const fallbackModels = exported.room.fallbackModels ?? []
+            const modelParams = pickGenerationParams(
+                exported.room.modelParams ?? {}
+            )
+
+            if (!Array.isArray(fallbackModels)) {
+                context.message = session.text('.invalid_file')
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            // 与设置房间时相同，备用模型也需要存在
+            const notFoundModel = [model, ...fallbackModels].find(
+                (model) => !isModelAvailable(ctx, model)
+            )
+
+            if (notFoundModel != null) {
+                context.message = session.text('.model_not_found', [
+                    notFoundModel
+                ])
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            const invalidParam = findInvalidModelParam(modelParams)
+
+            if (invalidParam != null) {
+                context.message = session.text(
+                    '.invalid_model_param',
+                    invalidParam
+                )
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            if (
+                (await ctx.chatluna.preset.getPreset(preset, false, false)) ==
+                null
+            ) {
+                context.message = session.text('.preset_not_found', [preset])
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            const room: ConversationRoom = {
+                conversationId: randomUUID(),
+                model,
+                fallbackModels,
+                modelParams,
+                reasoningDisplayMode: exported.room.reasoningDisplayMode,
+                preset,
+                roomName:
+                    context.options.room_resolve?.name ??
+                    exported.room.roomName ??
+                    '未命名房间',
+                roomMasterId: session.userId,
+                roomId: (await getConversationRoomCount(ctx)) + 1,
+                visibility: 'private',
+                chatMode: exported.room.chatMode ?? config.defaultChatMode,
+                password: null,
+                updatedTime: new Date()
+            }
+
+            await createConversationWithMessages(
+                ctx,
+                room.conversationId,
+                exported.messages.map((message) => ({
+                    text: JSON.stringify(message.content),
+                    role: message.role as ChatLunaMessage['role'],
+                    additional_kwargs:
+                        message.additional_kwargs != null
+                            ? JSON.stringify(message.additional_kwargs)
+                            : null,
+                    rawId: message.rawId ?? null
+                })),
+                exported.conversation?.additional_kwargs != null
+                    ? JSON.stringify(exported.conversation.additional_kwargs)
+                    : null
+            )
+
+            await createConversationRoom(ctx, session, room)
+
+            context.message = session.text('.success', [
+                room.roomId,
+                room.roomName,
+                exported.messages.length
+            ])
+
+            return ChainMiddlewareRunStatus.STOP
+        })
+        .after('lifecycle-handle_command')
+}
+
+async function readFileContent(ctx: Context, elements: h[]) {
+    const file = h.select(elements, 'file')[0]
+
+    if (file == null) {
+        return undefined
+    }
+
+    const url = (file.attrs.url ?? file.attrs.src) as string
+
+    const response = await ctx.http(url, {
+        responseType: 'text',
+        method: 'get'
+    })
+
+    return response.data as string
+}
+
+function parseConversation(content: string): ExportedConversation {
+    content = content.trim()
+
+    if (content.startsWith('{')) {
+        const exported = JSON.parse(content) as ExportedConversation
+
+        if (
+            exported.format !== 'chatluna-conversation' ||
+            !Array.isArray(exported.messages)
+        ) {
+            return undefined
+        }
+
+        return exported
+    }
+
+    return parseMarkdown(content)
+}
+
+function isValidConversation(exported: ExportedConversation) {
+    if (
+        exported?.room == null ||
+        typeof exported.room !== 'object' ||
+        exported.messages.length < 1
+    ) {
+        return false
+    }
+
+    // 消息需要按顺序组成一条完整的 parent 链
+    return exported.messages.every((message, index) => {
+        if (
+            message == null ||
+            typeof message.id !== 'string' ||
+            !['human', 'ai', 'system'].includes(message.role) ||
+            (typeof message.content !== 'string' &&
+                !Array.isArray(message.content))
+        ) {
+            return false
+        }
+
+        const parent = exported.messages[index - 1]?.id
+
+        return (message.parent ?? undefined) === parent
+    })
+}
+
+function isModelAvailable(ctx: Context, model: string) {
+    if (typeof model !== 'string') {
+        return false
+    }
+
+    const platformService = ctx.chatluna.platform
+
+    const [platformName, modelName] = parseRawModelName(
+        platformService.resolveModelAlias(model)[0]
+    )
+
+    return platformService
+        .getModels(platformName, ModelType.llm)
+        .some((it) => it.name === modelName)
+}
+
+function parseMarkdown(content: string): ExportedConversation {
+    const [header, ...sections] = content.split(/^### (human|ai|system)$/m)
+
+    const readMeta = (key: string) =>
+        header.match(new RegExp(`^- ${key}: (.*)$`, 'm'))?.[1]?.trim()
+
+    const messages: ExportedMessage[] = []
+
+    // split 的结果为 [角色, 内容, 角色, 内容, ...]
+    for (let i = 0; i < sections.length; i += 2) {
+        messages.push({
+            id: randomUUID(),
+            role: sections[i],
+            content: sections[i + 1].trim(),
+            parent: messages[messages.length - 1]?.id
+        })
+    }
+
+    return {
+        format: 'chatluna-conversation',
+        version: 1,
+        exportedAt: readMeta('exportedAt'),
+        room: {
+            roomName: header.match(/^# (.*)$/m)?.[1]?.trim(),
+            preset: readMeta('preset'),
+            model: readMeta('model'),
+            chatMode: readMeta('chatMode')
+        },
+        conversation: {},
+        messages
+    }
+}
+
+declare module '../chains/chain' {
+    interface ChainMiddlewareName {
+        import_room: never
+    }
+}
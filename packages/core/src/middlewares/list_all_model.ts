@@ -33,7 +33,14 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
                 pages: '\n' + session.text('.pages')
             })
 
-            const models = services.getAllModels(ModelType.llm)
+            // 别名额外显示其指向的模型
+            const models = services
+                .getAllModels(ModelType.llm)
+                .map((model) =>
+                    model.startsWith('alias/')
+                        ? `${model} -> ${services.resolveModelAlias(model)[0]}`
+                        : model
+                )
 
             await pagination.push(models)
 
@@ -54,6 +54,11 @@ function formatAuthGroup(session: Session, group: ChatHubAuthGroup) {
         session.text('.platform', [group.platform ?? session.text('.general')])
     )
     buffer.push(session.text('.cost', [group.costPerToken]))
+    for (const [model, price] of Object.entries(group.modelPrices ?? {})) {
+        buffer.push(
+            session.text('.model_price', [model, price.input, price.output])
+        )
+    }
     buffer.push(session.text('.priority', [group.priority]))
     buffer.push(
         session.text('.support_models', [
@@ -0,0 +1,115 @@
+import { Context, Session } from 'koishi'
+import { Config } from '../config'
+import { ChainMiddlewareRunStatus, ChatChain } from '../chains/chain'
+import {
+    getAllJoinedConversationRoom,
+    getConversationMessages
+} from '../chains/rooms'
+import { Pagination } from 'koishi-plugin-chatluna/utils/pagination'
+import { getMessageContent } from 'koishi-plugin-chatluna/utils/string'
+import { ChatLunaMessage } from '../llm-core/memory/message/database_history'
+
+export function apply(ctx: Context, config: Config, chain: ChatChain) {
+    const pagination = new Pagination<ChatLunaMessage>({
+        formatItem: (value) => '',
+        formatString: {
+            top: '',
+            bottom: '',
+            pages: ''
+        }
+    })
+
+    chain
+        .middleware('list_chat_history', async (session, context) => {
+            const {
+                command,
+                options: { page, limit }
+            } = context
+
+            if (command !== 'chat_history')
+                return ChainMiddlewareRunStatus.SKIPPED
+
+            let room = context.options.room
+
+            if (room == null && context.options.room_resolve != null) {
+                // 尝试完整搜索一次
+
+                const rooms = await getAllJoinedConversationRoom(
+                    ctx,
+                    session,
+                    true
+                )
+
+                const roomId = parseInt(context.options.room_resolve?.name)
+
+                room = rooms.find(
+                    (room) =>
+                        room.roomName === context.options.room_resolve?.name ||
+                        room.roomId === roomId
+                )
+            }
+
+            if (room == null) {
+                context.message = session.text('.room_not_found')
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            const messages = await getConversationMessages(
+                ctx,
+                room.conversationId
+            )
+
+            if (messages.length < 1) {
+                context.message = session.text('.no_chat_history', [
+                    room.roomName
+                ])
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            pagination.updateFormatString({
+                top: session.text('.header', [room.roomName]) + '\n',
+                bottom: '\n' + session.text('.footer'),
+                pages: '\n' + session.text('.pages')
+            })
+
+            pagination.updateFormatItem((value) =>
+                formatMessage(session, value)
+            )
+
+            const key = session.isDirect
+                ? session.userId
+                : session.guildId + '-' + session.userId
+
+            // 最新的消息排在前面
+            await pagination.push(messages.reverse(), key)
+
+            context.message = await pagination.getFormattedPage(
+                page,
+                limit,
+                key
+            )
+
+            return ChainMiddlewareRunStatus.STOP
+        })
+        .after('lifecycle-handle_command')
+}
+
+function formatMessage(session: Session, message: ChatLunaMessage) {
+    let content = getMessageContent(JSON.parse(message.text as string))
+
+    if (content.length > 100) {
+        content = content.slice(0, 100) + '...'
+    }
+
+    return session.text('.message', [
+        message.id.slice(0, 8),
+        message.role,
+        content
+    ])
+}
+
+declare module '../chains/chain' {
+    interface ChainMiddlewareName {
+        list_chat_history: never
+    }
+}
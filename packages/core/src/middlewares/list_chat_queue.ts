@@ -0,0 +1,173 @@
+import { Context, Session } from 'koishi'
+import { Config } from '../config'
+import { ChainMiddlewareRunStatus, ChatChain } from '../chains/chain'
+import { queryConversationRoom } from '../chains/rooms'
+import { Pagination } from 'koishi-plugin-chatluna/utils/pagination'
+import { QueuedChatRequest } from '../services/chat'
+import { ConversationRoom } from '../types'
+
+export function apply(ctx: Context, config: Config, chain: ChatChain) {
+    const pagination = new Pagination<string>({
+        formatItem: (value) => value,
+        formatString: {
+            top: '',
+            bottom: '',
+            pages: ''
+        }
+    })
+
+    chain
+        .middleware('list_chat_queue', async (session, context) => {
+            const {
+                command,
+                options: { page, limit, cancelRequestId }
+            } = context
+
+            if (command !== 'chat_queue')
+                return ChainMiddlewareRunStatus.SKIPPED
+
+            let requests = ctx.chatluna.getQueuedRequests()
+
+            const roomName = context.options.room_resolve?.name
+
+            if (roomName != null) {
+                const room = await queryConversationRoom(ctx, session, roomName)
+
+                if (room == null) {
+                    context.message = session.text('.room_not_found')
+                    return ChainMiddlewareRunStatus.STOP
+                }
+
+                requests = requests.filter(
+                    (request) => request.conversationId === room.conversationId
+                )
+            }
+
+            const rooms = await getRooms(ctx, requests)
+
+            if (cancelRequestId != null) {
+                const request = requests.find((request) =>
+                    request.requestId.startsWith(cancelRequestId)
+                )
+
+                const room = rooms[request?.conversationId]
+
+                if (request == null || room == null) {
+                    context.message = session.text('.request_not_found', [
+                        cancelRequestId
+                    ])
+                    return ChainMiddlewareRunStatus.STOP
+                }
+
+                const status = await ctx.chatluna.stopChat(
+                    room,
+                    request.requestId
+                )
+
+                context.message = session.text(
+                    status ? '.cancel_success' : '.cancel_failed',
+                    [formatRequestId(request.requestId), room.roomName]
+                )
+
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            if (requests.length < 1) {
+                context.message = session.text('.empty')
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            pagination.updateFormatString({
+                top: session.text('.header') + '\n',
+                bottom: '\n' + session.text('.footer'),
+                pages: '\n' + session.text('.pages')
+            })
+
+            // 按房间分组，房间内按排队位置排序
+            const items = requests
+                .sort((a, b) => {
+                    if (a.conversationId !== b.conversationId) {
+                        return a.conversationId.localeCompare(b.conversationId)
+                    }
+
+                    return (a.position ?? Infinity) - (b.position ?? Infinity)
+                })
+                .map((request) =>
+                    formatRequest(
+                        session,
+                        request,
+                        rooms[request.conversationId]
+                    )
+                )
+
+            await pagination.push(items)
+
+            context.message = await pagination.getFormattedPage(page, limit)
+
+            return ChainMiddlewareRunStatus.STOP
+        })
+        .after('lifecycle-handle_command')
+}
+
+async function getRooms(ctx: Context, requests: QueuedChatRequest[]) {
+    const conversationIds = [
+        ...new Set(requests.map((request) => request.conversationId))
+    ]
+
+    const rooms: Record<string, ConversationRoom> = {}
+
+    if (conversationIds.length < 1) {
+        return rooms
+    }
+
+    const roomList = await ctx.database.get('chathub_room', {
+        conversationId: {
+            $in: conversationIds
+        }
+    })
+
+    for (const room of roomList) {
+        rooms[room.conversationId] = room as ConversationRoom
+    }
+
+    return rooms
+}
+
+function formatRequestId(requestId: string) {
+    return requestId.slice(0, 8)
+}
+
+function formatRequest(
+    session: Session,
+    request: QueuedChatRequest,
+    room?: ConversationRoom
+) {
+    let status: string
+
+    if (request.position === 0) {
+        status = session.text('.status.running')
+    } else if (request.position == null) {
+        status = session.text('.status.pending')
+    } else {
+        status = session.text('.status.waiting', [request.position])
+    }
+
+    return session.text('.item', [
+        room?.roomName ?? request.conversationId,
+        formatRequestId(request.requestId),
+        request.userId,
+        status,
+        request.platform ?? '-',
+        request.priority
+    ])
+}
+
+declare module '../chains/chain' {
+    interface ChainMiddlewareName {
+        list_chat_queue: never
+    }
+
+    interface ChainMiddlewareContextOptions {
+        cancelRequestId?: string
+    }
+}
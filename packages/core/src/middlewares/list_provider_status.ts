@@ -0,0 +1,108 @@
+import { Context, Session } from 'koishi'
+import { Config } from '../config'
+import { ChainMiddlewareRunStatus, ChatChain } from '../chains/chain'
+import { Pagination } from 'koishi-plugin-chatluna/utils/pagination'
+import {
+    ClientConfigWrapper,
+    maskApiKey
+} from 'koishi-plugin-chatluna/llm-core/platform/config'
+
+export function apply(ctx: Context, config: Config, chain: ChatChain) {
+    const service = ctx.chatluna.platform
+
+    const pagination = new Pagination<string>({
+        formatItem: (value) => value,
+        formatString: {
+            top: '',
+            bottom: '',
+            pages: ''
+        }
+    })
+
+    chain
+        .middleware('list_provider_status', async (session, context) => {
+            const {
+                command,
+                options: { page, limit }
+            } = context
+
+            if (command !== 'provider_status')
+                return ChainMiddlewareRunStatus.SKIPPED
+
+            pagination.updateFormatString({
+                top: session.text('.header') + '\n',
+                bottom: '',
+                pages: '\n' + session.text('.pages')
+            })
+
+            const items = service
+                .getConfigPlatforms()
+                .flatMap((platform) =>
+                    service
+                        .getConfigs(platform)
+                        .map((config) =>
+                            formatConfigStatus(session, platform, config)
+                        )
+                )
+
+            if (items.length < 1) {
+                context.message = session.text('.empty')
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            await pagination.push(items)
+
+            context.message = await pagination.getFormattedPage(page, limit)
+
+            return ChainMiddlewareRunStatus.STOP
+        })
+        .after('lifecycle-handle_command')
+}
+
+function formatConfigStatus(
+    session: Session,
+    platform: string,
+    config: ClientConfigWrapper
+) {
+    const health = config.health
+    const now = Date.now()
+
+    let status: string
+
+    if (!config.isAvailable) {
+        status = session.text('.status.unavailable')
+    } else if (health.cooldownUntil != null && health.cooldownUntil > now) {
+        status = session.text('.status.cooling_down', [
+            Math.ceil((health.cooldownUntil - now) / 1000)
+        ])
+    } else {
+        status = session.text('.status.available')
+    }
+
+    const errorRate =
+        health.requestCount > 0
+            ? ((health.errorCount / health.requestCount) * 100).toFixed(1)
+            : '0.0'
+
+    const averageLatency =
+        health.requestCount > 0
+            ? Math.round(health.totalLatency / health.requestCount)
+            : 0
+
+    return session.text('.item', [
+        platform,
+        maskApiKey(config.value.apiKey),
+        status,
+        health.requestCount,
+        errorRate,
+        health.rateLimitCount,
+        averageLatency,
+        health.lastErrorCode ?? '-'
+    ])
+}
+
+declare module '../chains/chain' {
+    interface ChainMiddlewareName {
+        list_provider_status: never
+    }
+}
@@ -0,0 +1,212 @@
+import { $, Context, Eval, Query, Row, Session } from 'koishi'
+import { Decimal } from 'decimal.js'
+import { Config } from '../config'
+import { ChainMiddlewareRunStatus, ChatChain } from '../chains/chain'
+import { Pagination } from 'koishi-plugin-chatluna/utils/pagination'
+import { ChatLunaUsageRecord } from '../types'
+
+type UsageGroupBy = 'user' | 'room' | 'model' | 'day'
+
+interface UsageSummary {
+    key: string
+    requests: number
+    failures: number
+    promptTokens: number
+    completionTokens: number
+    cost: Decimal
+    latency: number
+}
+
+export function apply(ctx: Context, config: Config, chain: ChatChain) {
+    const pagination = new Pagination<UsageSummary>({
+        formatItem: (value) => '',
+        formatString: {
+            top: '',
+            bottom: '',
+            pages: ''
+        }
+    })
+
+    chain
+        .middleware('query_usage', async (session, context) => {
+            const {
+                command,
+                options: { page, limit, usageQuery }
+            } = context
+
+            if (command !== 'query_usage')
+                return ChainMiddlewareRunStatus.SKIPPED
+
+            const groupBy = usageQuery.groupBy as UsageGroupBy
+
+            if (!['user', 'room', 'model', 'day'].includes(groupBy)) {
+                context.message = session.text('.invalid_group_by', [groupBy])
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            const query: Query.Expr<ChatLunaUsageRecord> = {
+                createdAt: {
+                    $gte: new Date(
+                        Date.now() - usageQuery.days * 24 * 60 * 60 * 1000
+                    )
+                }
+            }
+
+            if (usageQuery.userId != null) {
+                query.userId = usageQuery.userId
+            }
+
+            if (usageQuery.roomId != null) {
+                query.roomId = usageQuery.roomId
+            }
+
+            const summaries = await summarizeUsage(ctx, query, groupBy)
+
+            if (summaries.length === 0) {
+                context.message = session.text('.empty', [usageQuery.days])
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            const requests = summaries.reduce(
+                (total, summary) => total + summary.requests,
+                0
+            )
+
+            const total = summaries.reduce(
+                (total, summary) => total.add(summary.cost),
+                new Decimal(0)
+            )
+
+            pagination.updateFormatString({
+                top:
+                    session.text('.header', [
+                        usageQuery.days,
+                        session.text(`.group_by.${groupBy}`),
+                        requests,
+                        total.toNumber()
+                    ]) + '\n',
+                bottom: '',
+                pages: '\n' + session.text('.pages')
+            })
+
+            pagination.updateFormatItem((value) =>
+                formatUsageSummary(session, value)
+            )
+
+            await pagination.push(summaries)
+
+            context.message = await pagination.getFormattedPage(page, limit)
+
+            return ChainMiddlewareRunStatus.STOP
+        })
+        .after('lifecycle-handle_command')
+}
+
+// 在数据库中分组统计，避免读取全部的用量记录
+async function summarizeUsage(
+    ctx: Context,
+    query: Query.Expr<ChatLunaUsageRecord>,
+    groupBy: UsageGroupBy
+): Promise<UsageSummary[]> {
+    const rows = await ctx.database
+        .select('chathub_usage', query)
+        .groupBy(
+            { key: (row) => getGroupKey(row, groupBy) },
+            {
+                requests: (row) => $.count(row.id),
+                failures: (row) => $.sum($.if(row.success, 0, 1)),
+                promptTokens: (row) => $.sum(row.promptTokens),
+                completionTokens: (row) => $.sum(row.completionTokens),
+                cost: (row) => $.sum(row.cost),
+                latency: (row) => $.sum(row.latency)
+            }
+        )
+        .execute()
+
+    const result: UsageSummary[] = rows.map((row) => ({
+        key:
+            groupBy === 'day'
+                ? formatDay(row.key as number)
+                : row.key.toString(),
+        requests: row.requests,
+        failures: row.failures ?? 0,
+        promptTokens: row.promptTokens ?? 0,
+        completionTokens: row.completionTokens ?? 0,
+        cost: new Decimal(row.cost ?? 0),
+        latency: row.latency ?? 0
+    }))
+
+    if (groupBy === 'day') {
+        // 按日期倒序，最近的在前面
+        return result.sort((a, b) => b.key.localeCompare(a.key))
+    }
+
+    return result.sort((a, b) => b.cost.comparedTo(a.cost))
+}
+
+function getGroupKey(
+    row: Row<ChatLunaUsageRecord>,
+    groupBy: UsageGroupBy
+): Eval.Expr<string | number, false> {
+    switch (groupBy) {
+        case 'user':
+            return row.userId
+        case 'room':
+            return row.roomId
+        case 'model':
+            return row.model
+        case 'day': {
+            // 按本地时区的日期分组，得到距离 1970-01-01 的天数
+            const offset = -new Date().getTimezoneOffset() * 60
+
+            return $.floor(
+                $.div($.add($.number(row.createdAt), offset), 24 * 60 * 60)
+            )
+        }
+    }
+}
+
+function formatDay(days: number) {
+    const date = new Date(days * 24 * 60 * 60 * 1000)
+    const month = (date.getUTCMonth() + 1).toString().padStart(2, '0')
+    const day = date.getUTCDate().toString().padStart(2, '0')
+    return `${date.getUTCFullYear()}-${month}-${day}`
+}
+
+function formatUsageSummary(session: Session, summary: UsageSummary) {
+    const buffer: string[] = []
+
+    buffer.push(session.text('.key', [summary.key]))
+    buffer.push(session.text('.requests', [summary.requests, summary.failures]))
+    buffer.push(
+        session.text('.tokens', [
+            summary.promptTokens,
+            summary.completionTokens
+        ])
+    )
+    buffer.push(session.text('.cost', [summary.cost.toNumber()]))
+    buffer.push(
+        session.text('.latency', [
+            Math.round(summary.latency / summary.requests)
+        ])
+    )
+
+    buffer.push('\n')
+
+    return buffer.join('\n')
+}
+
+declare module '../chains/chain' {
+    interface ChainMiddlewareName {
+        query_usage: never
+    }
+
+    interface ChainMiddlewareContextOptions {
+        usageQuery?: {
+            groupBy: string
+            days: number
+            userId?: string
+            roomId?: number
+        }
+    }
+}
@@ -1,12 +1,39 @@
-import { Context, h } from 'koishi'
+import { Context, h, Session } from 'koishi'
+import { HumanMessage } from '@langchain/core/messages'
+import crypto from 'crypto'
 import { ChainMiddlewareRunStatus, ChatChain } from '../chains/chain'
 import { Config } from '../config'
+import { Message } from '../types'
 import { logger } from '../index'
+import { parseRawModelName } from 'koishi-plugin-chatluna/llm-core/utils/count_tokens'
+import { ChatLunaChatModel } from 'koishi-plugin-chatluna/llm-core/platform/model'
+import { ModelType } from 'koishi-plugin-chatluna/llm-core/platform/types'
+import { getMessageContent } from 'koishi-plugin-chatluna/utils/string'
+import { FileContent } from 'koishi-plugin-chatluna/llm-core/memory/file'
 import type {} from '@initencounter/sst'
 
+const IMAGE_CAPTION_PROMPT =
+    'Describe this image for someone who cannot see it. ' +
+    'If there is any text in the image, transcribe it as well. ' +
+    'Reply with the description only, in the same language as the text in the image if there is any.'
+
+// 图片的哈希到描述的缓存，避免重复描述相同的图片（如表情包）
+const imageCaptionCache = new Map<string, string>()
+
+const MAX_IMAGE_CAPTION_CACHE_SIZE = 500
+
+const TEXT_FILE_EXTENSIONS = ['txt', 'md', 'json', 'csv']
+
+const SUPPORTED_FILE_EXTENSIONS = [...TEXT_FILE_EXTENSIONS, 'pdf', 'docx']
+
 export function apply(ctx: Context, config: Config, chain: ChatChain) {
     chain
         .middleware('read_chat_message', async (session, context) => {
+            // 重新生成时使用保存的用户输入
+            if (context.command === 'regenerate') {
+                return ChainMiddlewareRunStatus.SKIPPED
+            }
+
             let message =
                 context.command != null ? context.message : session.elements
 
@@ -26,6 +53,10 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
                 return ChainMiddlewareRunStatus.STOP
             }
 
+            // 保存用户的原始输入，重新生成时不再经过预设模版和图片描述的处理
+            transformedMessage.additional_kwargs.rawContent =
+                transformedMessage.content
+
             context.options.inputMessage = transformedMessage
 
             return ChainMiddlewareRunStatus.CONTINUE
@@ -33,6 +64,46 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
         .after('lifecycle-prepare')
         .before('resolve_room')
 
+    chain
+        .middleware('caption_image', async (session, context) => {
+            const { room, inputMessage } = context.options
+
+            const images: string[] = inputMessage?.additional_kwargs?.images
+
+            if (
+                config.imageCaptionModel === '无' ||
+                room == null ||
+                images == null ||
+                images.length < 1 ||
+                supportImageInput(ctx, room.model)
+            ) {
+                return ChainMiddlewareRunStatus.SKIPPED
+            }
+
+            // 为不支持图片输入的模型生成图片描述
+            const imageCaptions: string[] = []
+
+            for (const image of images) {
+                const caption = await captionImage(ctx, config, image)
+
+                if (caption == null) {
+                    // 部分图片没有描述时，仍然无法发送给该模型
+                    return ChainMiddlewareRunStatus.CONTINUE
+                }
+
+                imageCaptions.push(caption)
+            }
+
+            inputMessage.additional_kwargs.imageCaptions = imageCaptions
+            inputMessage.content +=
+                '\n' +
+                imageCaptions.map((caption) => `[image: ${caption}]`).join('\n')
+
+            return ChainMiddlewareRunStatus.CONTINUE
+        })
+        .after('chat_time_limit_check')
+        .before('request_model')
+
     ctx.chatluna.messageTransformer.intercept(
         'text',
         async (session, element, message) => {
@@ -61,8 +132,10 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
 
             logger.debug(`image url: ${url} ${element.attrs}`)
 
+            let image: string
+
             if (url.startsWith('data:image') && url.includes('base64')) {
-                images.push(url)
+                image = url
             } else {
                 const response = await ctx.http(url, {
                     responseType: 'arraybuffer',
@@ -84,17 +157,241 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
 
                 const base64 = Buffer.from(buffer).toString('base64')
 
-                images.push(`data:image/${ext ?? 'jpeg'};base64,${base64}`)
+                image = `data:image/${ext ?? 'jpeg'};base64,${base64}`
             }
 
+            images.push(image)
+
             message.additional_kwargs.images = images
+        }
+    )
+
+    // 合并转发的消息，展开为带发送者的聊天记录
+    const transformForwardMessage = async (
+        session: Session,
+        element: h,
+        message: Message
+    ) => {
+        const lines: string[] = []
+
+        for (const child of element.children) {
+            if (child.type !== 'message') {
+                continue
+            }
+
+            const author = h.select(child.children, 'author')[0]
+
+            const name = (author?.attrs.name ??
+                author?.attrs.nickname ??
+                author?.attrs.id ??
+                child.attrs.name ??
+                'unknown') as string
+
+            const imageCount = message.additional_kwargs.images?.length ?? 0
+
+            // 共用 additional_kwargs，转发消息中的图片和文件会一并加入到消息中
+            const forwardMessage =
+                await ctx.chatluna.messageTransformer.transform(
+                    session,
+                    child.children,
+                    {
+                        content: '',
+                        additional_kwargs: message.additional_kwargs
+                    },
+                    true
+                )
+
+            let content = forwardMessage.content
+
+            if (
+                content.length < 1 &&
+                (message.additional_kwargs.images?.length ?? 0) > imageCount
+            ) {
+                content = '[image]'
+            }
+
+            if (content.length > 0) {
+                lines.push(`${name}: ${content}`)
+            }
+        }
+
+        if (lines.length < 1) {
+            message.content += '[forwarded messages]'
+            return
+        }
+
+        message.content += `[forwarded messages]\n${lines.join('\n')}\n[/forwarded messages]`
+    }
+
+    ctx.chatluna.messageTransformer.intercept(
+        'message',
+        async (session, element, message) => {
+            if (!element.attrs.forward) {
+                return false
+            }
 
-            if (message.content?.length < 1) {
-                message.content = 'what is this?'
+            await transformForwardMessage(session, element, message)
+        }
+    )
+
+    ctx.chatluna.messageTransformer.intercept(
+        'forward',
+        async (session, element, message) => {
+            await transformForwardMessage(session, element, message)
+        }
+    )
+
+    for (const type of ['face', 'emoji', 'mface', 'sticker']) {
+        ctx.chatluna.messageTransformer.intercept(
+            type,
+            async (session, element, message) => {
+                const name = (element.attrs.name ??
+                    element.attrs.summary ??
+                    element.attrs.id) as string
+
+                if (name != null) {
+                    message.content += `[${type}: ${name}]`
+                }
             }
+        )
+    }
+
+    ctx.chatluna.messageTransformer.intercept(
+        'video',
+        async (session, element, message) => {
+            const url = (element.attrs.src ?? element.attrs.url) as string
+
+            message.content += formatElementText(
+                'video',
+                element.attrs.title,
+                url
+            )
         }
     )
 
+    ctx.chatluna.messageTransformer.intercept(
+        'a',
+        async (session, element, message) => {
+            const text = element.toString(true).trim()
+            const url = element.attrs.href as string
+
+            message.content +=
+                url == null || text === url ? text : `${text} (${url})`
+        }
+    )
+
+    ctx.chatluna.messageTransformer.intercept(
+        'share',
+        async (session, element, message) => {
+            message.content += formatElementText(
+                'link',
+                element.attrs.title,
+                element.attrs.url
+            )
+        }
+    )
+
+    // 卡片消息，如 QQ 的小程序和链接分享
+    ctx.chatluna.messageTransformer.intercept(
+        'json',
+        async (session, element, message) => {
+            const card = parseLinkCard(element.attrs.data)
+
+            if (card != null) {
+                message.content += formatElementText(
+                    'link',
+                    card.title,
+                    card.url
+                )
+            }
+        }
+    )
+
+    if (config.fileInput) {
+        ctx.chatluna.messageTransformer.intercept(
+            'file',
+            async (session, element, message) => {
+                const url = (element.attrs.src ?? element.attrs.url) as string
+
+                if (url == null) {
+                    return
+                }
+
+                let name = (element.attrs.title ??
+                    element.attrs.name ??
+                    element.attrs.file) as string
+
+                const maxSize = config.fileInputMaxSize * 1024
+
+                if (
+                    element.attrs.size != null &&
+                    element.attrs.size > maxSize
+                ) {
+                    logger.warn(
+                        `The file ${name} is too large (${element.attrs.size} bytes), skip it.`
+                    )
+                    return
+                }
+
+                // 先根据文件名或链接判断类型，不下载不支持的文件
+                let ext = getFileExtension(name) ?? getFileExtension(url)
+
+                if (ext != null && !SUPPORTED_FILE_EXTENSIONS.includes(ext)) {
+                    logger.debug(`unsupported file: ${name ?? url}`)
+                    return
+                }
+
+                let content: string
+
+                try {
+                    const file = await downloadFile(ctx, url, maxSize)
+
+                    name = name ?? file.filename
+
+                    // 文件名和链接都没有扩展名时，使用响应中的文件名
+                    ext = ext ?? getFileExtension(file.filename)
+
+                    if (!SUPPORTED_FILE_EXTENSIONS.includes(ext)) {
+                        logger.debug(`unsupported file: ${name}`)
+                        return
+                    }
+
+                    if (file.data == null) {
+                        logger.warn(
+                            `The file ${name} is too large (${file.size} bytes), skip it.`
+                        )
+                        return
+                    }
+
+                    content = await readFileContent(file.data, ext)
+                } catch (e) {
+                    logger.warn(`Error when reading file ${name}: ${e}`)
+                    return
+                }
+
+                content = content.trim()
+
+                if (content.length < 1) {
+                    return
+                }
+
+                // 较短的文件直接加入到消息中，较长的文件在对话时检索相关的内容
+                if (content.length <= config.fileInputInlineLength) {
+                    message.content += `[file: ${name}]\n${content}\n[/file]`
+                    return
+                }
+
+                const files: FileContent[] =
+                    message.additional_kwargs.files ?? []
+
+                files.push({ name, content })
+
+                message.additional_kwargs.files = files
+                message.content += `[file: ${name}]`
+            }
+        )
+    }
+
     ctx.inject(['sst'], (ctx) => {
         logger.debug('sst service loaded.')
 
@@ -112,8 +409,224 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
     })
 }
 
+function supportImageInput(ctx: Context, model: string) {
+    const platformService = ctx.chatluna.platform
+
+    const [platform, modelName] = parseRawModelName(
+        platformService.resolveModelAlias(model)[0]
+    )
+
+    return (
+        platformService
+            .getModels(platform, ModelType.llm)
+            .find((info) => info.name === modelName)?.imageInput === true
+    )
+}
+
+async function captionImage(ctx: Context, config: Config, image: string) {
+    const hash = crypto.createHash('sha256').update(image).digest('hex')
+
+    const cached = imageCaptionCache.get(hash)
+
+    if (cached != null) {
+        return cached
+    }
+
+    try {
+        const [platform, modelName] = parseRawModelName(
+            config.imageCaptionModel
+        )
+
+        const model = (await ctx.chatluna.createChatModel(
+            platform,
+            modelName
+        )) as ChatLunaChatModel
+
+        if (!model.modelInfo?.imageInput) {
+            logger.warn(
+                `The image caption model ${config.imageCaptionModel} does not support image input.`
+            )
+            return undefined
+        }
+
+        const result = await model.invoke([
+            new HumanMessage({
+                content: IMAGE_CAPTION_PROMPT,
+                additional_kwargs: {
+                    images: [image]
+                }
+            })
+        ])
+
+        const caption = getMessageContent(result.content).trim()
+
+        if (caption.length < 1) {
+            return undefined
+        }
+
+        // 超出缓存大小时移除最早的描述
+        if (imageCaptionCache.size >= MAX_IMAGE_CAPTION_CACHE_SIZE) {
+            imageCaptionCache.delete(imageCaptionCache.keys().next().value)
+        }
+
+        imageCaptionCache.set(hash, caption)
+
+        return caption
+    } catch (e) {
+        logger.warn(`Error when captioning image: ${e}`)
+        return undefined
+    }
+}
+
+function formatElementText(type: string, title?: string, url?: string) {
+    // 不加入 base64 等过长的内容
+    if (url != null && !/^https?:\/\//.test(url)) {
+        url = undefined
+    }
+
+    const content = [title, url]
+        .filter((value) => value != null && value.length > 0)
+        .join(' ')
+
+    return content.length > 0 ? `[${type}: ${content}]` : `[${type}]`
+}
+
+function parseLinkCard(data: string) {
+    let card: {
+        prompt?: string
+        meta?: Record<string, Record<string, string>>
+    }
+
+    try {
+        card = JSON.parse(data)
+    } catch (e) {
+        logger.debug(`Error when parsing card: ${e}`)
+        return undefined
+    }
+
+    const detail = Object.values(card?.meta ?? {}).find(
+        (value) => value != null && typeof value === 'object'
+    )
+
+    const title = detail?.title ?? detail?.desc ?? card?.prompt
+
+    if (title == null) {
+        return undefined
+    }
+
+    return {
+        title,
+        url: detail?.qqdocurl ?? detail?.jumpUrl ?? detail?.url
+    }
+}
+
+// 边下载边检查大小，超出限制时立即中止下载，不返回文件内容
+async function downloadFile(
+    ctx: Context,
+    url: string,
+    maxSize: number
+): Promise<{ filename: string; size: number; data?: Buffer }> {
+    // data: 链接和适配器内部的链接不需要通过网络下载
+    if (!/^https?:\/\//.test(url)) {
+        const file = await ctx.http.file(url)
+        const size = file.data.byteLength
+
+        return {
+            filename: file.filename,
+            size,
+            data: size > maxSize ? undefined : Buffer.from(file.data)
+        }
+    }
+
+    const response = await ctx.http(url, {
+        method: 'get',
+        responseType: 'stream'
+    })
+
+    const filename = response.url.match(/\/([^/?#]*)(?:[?#].*)?$/)?.[1]
+
+    const contentLength = Number(response.headers.get('content-length'))
+
+    if (contentLength > maxSize) {
+        await response.data.cancel()
+        return { filename, size: contentLength }
+    }
+
+    // 没有 Content-Length 或其不可信时，按实际读取的大小判断
+    const reader = response.data.getReader()
+    const chunks: Uint8Array[] = []
+    let size = 0
+
+    while (true) {
+        const { done, value } = await reader.read()
+
+        if (done) {
+            break
+        }
+
+        size += value.byteLength
+
+        if (size > maxSize) {
+            await reader.cancel()
+            return { filename, size }
+        }
+
+        chunks.push(value)
+    }
+
+    return { filename, size, data: Buffer.concat(chunks) }
+}
+
+function getFileExtension(name: string) {
+    return name?.match(/\.([^./?#]+)(?:[?#].*)?$/)?.[1]?.toLowerCase()
+}
+
+async function readFileContent(buffer: Buffer, ext: string) {
+    if (TEXT_FILE_EXTENSIONS.includes(ext)) {
+        return buffer.toString('utf-8')
+    }
+
+    if (ext === 'pdf') {
+        const pdfParse = await importPdfParse()
+
+        return (await pdfParse(buffer)).text
+    }
+
+    const mammoth = await importMammoth()
+
+    return (await mammoth.extractRawText({ buffer })).value
+}
+
+async function importPdfParse() {
+    try {
+        // pdf-parse 的入口文件在没有父模块时会进入调试模式，直接导入实现
+        const any = await import('pdf-parse/lib/pdf-parse.js')
+
+        return any.default as typeof import('pdf-parse')
+    } catch (err) {
+        logger.error(err)
+        throw new Error(
+            'Please install pdf-parse as a dependency with, e.g. `npm install -S pdf-parse`'
+        )
+    }
+}
+
+async function importMammoth() {
+    try {
+        const any = await import('mammoth')
+
+        return any.default
+    } catch (err) {
+        logger.error(err)
+        throw new Error(
+            'Please install mammoth as a dependency with, e.g. `npm install -S mammoth`'
+        )
+    }
+}
+
 declare module '../chains/chain' {
     export interface ChainMiddlewareName {
         read_chat_message: string
+        caption_image: string
     }
 }
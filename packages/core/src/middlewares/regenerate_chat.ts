@@ -0,0 +1,202 @@
+import { Context } from 'koishi'
+import { MessageContent } from '@langchain/core/messages'
+import { Config } from '../config'
+import { ChainMiddlewareRunStatus, ChatChain } from '../chains/chain'
+import {
+    getAllJoinedConversationRoom,
+    getConversationMessages
+} from '../chains/rooms'
+import { getMessageContent } from 'koishi-plugin-chatluna/utils/string'
+import { logger } from '..'
+import { Message } from '../types'
+
+export function apply(ctx: Context, config: Config, chain: ChatChain) {
+    chain
+        .middleware('regenerate_chat', async (session, context) => {
+            const { command } = context
+
+            if (command !== 'regenerate')
+                return ChainMiddlewareRunStatus.SKIPPED
+
+            let room = context.options.room
+
+            if (room == null && context.options.room_resolve != null) {
+                // 尝试完整搜索一次
+
+                const rooms = await getAllJoinedConversationRoom(
+                    ctx,
+                    session,
+                    true
+                )
+
+                const roomId = parseInt(context.options.room_resolve?.name)
+
+                room = rooms.find(
+                    (room) =>
+                        room.roomName === context.options.room_resolve?.name ||
+                        room.roomId === roomId
+                )
+            }
+
+            if (room == null) {
+                context.message = session.text('.room_not_found')
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            // clear cache
+
+            await ctx.chatluna.clearCache(room)
+
+            const messages = await getConversationMessages(
+                ctx,
+                room.conversationId
+            )
+
+            const aiMessage = messages[messages.length - 1]
+            const humanMessage = messages[messages.length - 2]
+
+            if (aiMessage?.role !== 'ai' || humanMessage?.role !== 'human') {
+                context.message = session.text('.no_chat_history')
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            const aiKwargs = JSON.parse(aiMessage.additional_kwargs ?? '{}')
+
+            // 保留之前生成的所有回复，新的回复会追加到最后
+            context.options.regenerateAlternatives = aiKwargs.alternatives ?? [
+                JSON.parse(aiMessage.text as string)
+            ]
+
+            await ctx.database.upsert('chathub_conversation', [
+                {
+                    id: room.conversationId,
+                    latestId: humanMessage.parent ?? null,
+                    updatedAt: new Date()
+                }
+            ])
+
+            await ctx.database.remove('chathub_message', {
+                id: [aiMessage.id, humanMessage.id]
+            })
+
+            // 生成失败或中途停止时，恢复原来的消息
+            context.rollbacks ??= []
+            context.rollbacks.push(async () => {
+                if (context.options.regenerateSaved) {
+                    return
+                }
+
+                await ctx.database.upsert('chathub_message', [
+                    humanMessage,
+                    aiMessage
+                ])
+
+                await ctx.database.upsert('chathub_conversation', [
+                    {
+                        id: room.conversationId,
+                        latestId: aiMessage.id,
+                        updatedAt: new Date()
+                    }
+                ])
+
+                await ctx.chatluna.clearCache(room)
+            })
+
+            const humanContent = JSON.parse(
+                humanMessage.text as string
+            ) as MessageContent
+
+            const humanKwargs = JSON.parse(
+                humanMessage.additional_kwargs ?? '{}'
+            )
+
+            // 保存的消息已经经过预设模版的格式化，使用用户的原始输入
+            // 不再转换当前会话，避免带上触发重新生成时引用的消息
+            const inputMessage: Message = {
+                content:
+                    humanKwargs.rawContent ?? getMessageContent(humanContent),
+                additional_kwargs: humanKwargs
+            }
+
+            // 图片描述会根据当前的模型重新生成
+            delete inputMessage.additional_kwargs.imageCaptions
+
+            context.options.inputMessage = inputMessage
+
+            logger.debug(`regenerate chat ${room.roomName}`)
+
+            return ChainMiddlewareRunStatus.CONTINUE
+        })
+        .after('lifecycle-handle_command')
+
+    chain
+        .middleware('regenerate_chat_save', async (session, context) => {
+            const {
+                room,
+                regenerateAlternatives: alternatives,
+                responseMessage
+            } = context.options
+
+            if (alternatives == null) {
+                return ChainMiddlewareRunStatus.SKIPPED
+            }
+
+            // 新的回复已经保存，不再需要恢复
+            context.options.regenerateSaved = true
+
+            const messages = await getConversationMessages(
+                ctx,
+                room.conversationId
+            )
+
+            const aiMessage = messages[messages.length - 1]
+
+            if (aiMessage?.role !== 'ai') {
+                return ChainMiddlewareRunStatus.CONTINUE
+            }
+
+            const aiKwargs = JSON.parse(aiMessage.additional_kwargs ?? '{}')
+
+            aiKwargs.alternatives = [
+                ...alternatives,
+                JSON.parse(aiMessage.text as string)
+            ]
+            aiKwargs.alternativeIndex = aiKwargs.alternatives.length - 1
+
+            await ctx.database.upsert('chathub_message', [
+                {
+                    ...aiMessage,
+                    additional_kwargs: JSON.stringify(aiKwargs)
+                }
+            ])
+
+            const hint = session.text('chatluna.regenerate_hint', [
+                aiKwargs.alternatives.length
+            ])
+
+            if (responseMessage != null) {
+                responseMessage.additionalReplyMessages = [
+                    ...(responseMessage.additionalReplyMessages ?? []),
+                    { content: hint }
+                ]
+            } else {
+                await context.send(hint)
+            }
+
+            return ChainMiddlewareRunStatus.CONTINUE
+        })
+        .after('request_model')
+        .before('lifecycle-send')
+}
+
+declare module '../chains/chain' {
+    interface ChainMiddlewareName {
+        regenerate_chat: never
+        regenerate_chat_save: never
+    }
+
+    interface ChainMiddlewareContextOptions {
+        regenerateAlternatives?: MessageContent[]
+        regenerateSaved?: boolean
+    }
+}
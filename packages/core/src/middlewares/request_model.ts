@@ -1,9 +1,10 @@
-import { Context, Logger, Session, sleep } from 'koishi'
+import { Context, h, Logger, Session, sleep } from 'koishi'
 import {
     formatPresetTemplateString,
     PresetTemplate
 } from 'koishi-plugin-chatluna/llm-core/prompt'
-import { parseRawModelName } from 'koishi-plugin-chatluna/llm-core/utils/count_tokens'
+import { addTokenUsage } from 'koishi-plugin-chatluna/llm-core/chain/base'
+import { TokenUsage } from 'koishi-plugin-chatluna/llm-core/platform/types'
 import {
     ChatLunaError,
     ChatLunaErrorCode
@@ -15,7 +16,7 @@ import {
     ChatChain
 } from 'koishi-plugin-chatluna/chains'
 import { Config } from '../config'
-import { ConversationRoom, Message } from '../types'
+import { ChatLunaUsageRecord, ConversationRoom, Message } from '../types'
 import { renderMessage } from './render_message'
 import {
     getCurrentWeekday,
@@ -26,11 +27,15 @@ import {
 import { updateChatTime } from '../chains/rooms'
 import { BufferText } from '../utils/buffer_text'
 import { v4 as uuidv4 } from 'uuid'
+import { LRUCache } from 'lru-cache'
 
 let logger: Logger
 
 const requestIdCache = new Map<string, string>()
 
+// 平台消息 id 到发送该回复的对话，用于引用或回应回复时找到对应的房间
+const replyMessageCache = new LRUCache<string, ReplyMessage>({ max: 1000 })
+
 export function apply(ctx: Context, config: Config, chain: ChatChain) {
     logger = createLogger(ctx)
     chain
@@ -90,10 +95,33 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
 
             const requestId = createRequestId(session, room)
 
+            const tokenUsage = createTokenUsage()
+
             logger.debug(
                 `create request id: ${requestId} for ${session.userId} in ${room.roomName}-${room.conversationId}`
             )
 
+            const reply: ReplyMessage = {
+                conversationId: room.conversationId
+            }
+
+            context.afterSends ??= []
+            context.afterSends.push(async (messageIds) => {
+                for (const messageId of messageIds) {
+                    replyMessageCache.set(
+                        session.platform + ':' + messageId,
+                        reply
+                    )
+                }
+            })
+
+            const startTime = Date.now()
+
+            // 每次请求的模型和用量，回退到其他模型时按各自的价格计费
+            const attempts: ModelAttempt[] = [
+                createModelAttempt(ctx, room.model, startTime)
+            ]
+
             try {
                 responseMessage = await ctx.chatluna.chat(
                     session,
@@ -114,8 +142,11 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
                             await bufferText.addText(token)
                         },
                         // eslint-disable-next-line @typescript-eslint/naming-convention
-                        'llm-queue-waiting': async (count) => {
-                            context.options.queueCount = count
+                        'llm-queue-waiting': async (position) => {
+                            context.options.queueCount = position
+                            await context.options.thinkingTimeoutObject?.updateQueuePosition?.(
+                                position
+                            )
                         },
                         // eslint-disable-next-line @typescript-eslint/naming-convention
                         'llm-call-tool': async (tool, arg) => {
@@ -126,37 +157,132 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
                             context.send(formatToolCall(tool, arg))
                         },
                         // eslint-disable-next-line @typescript-eslint/naming-convention
-                        'llm-used-token-count': async (tokens) => {
-                            if (config.authSystem !== true) {
-                                return
+                        'llm-used-token-count': async (tokens, usage) => {
+                            usage ??= {
+                                promptTokens: tokens,
+                                completionTokens: 0,
+                                totalTokens: tokens
                             }
-                            const balance =
-                                await ctx.chatluna_auth.calculateBalance(
-                                    session,
-                                    parseRawModelName(room.model)[0],
-                                    tokens
-                                )
-
-                            logger.debug(`current balance: ${balance}`)
+
+                            addTokenUsage(tokenUsage, usage)
+                            addTokenUsage(
+                                attempts[attempts.length - 1].usage,
+                                usage
+                            )
+                        },
+                        // eslint-disable-next-line @typescript-eslint/naming-convention
+                        'llm-model-fallback': async (model) => {
+                            attempts.push(
+                                createModelAttempt(ctx, model, Date.now())
+                            )
                         }
                     },
                     config.streamResponse,
                     getSystemPromptVariables(session, config, room),
                     postHandler,
-                    requestId
+                    requestId,
+                    context.options.authGroup?.priority ?? 0
                 )
             } catch (e) {
-                if (e?.message?.includes('output values have 1 keys')) {
-                    throw new ChatLunaError(
-                        ChatLunaErrorCode.MODEL_RESPONSE_IS_EMPTY
+                const error = e?.message?.includes('output values have 1 keys')
+                    ? new ChatLunaError(
+                          ChatLunaErrorCode.MODEL_RESPONSE_IS_EMPTY
+                      )
+                    : e
+
+                // 请求失败时不扣费，只记录每个模型的用量
+                await saveUsageRecords(
+                    ctx,
+                    session,
+                    room,
+                    attempts.map((attempt) => ({ ...attempt, cost: 0 })),
+                    error instanceof ChatLunaError
+                        ? error.errorCode
+                        : ChatLunaErrorCode.UNKNOWN_ERROR
+                )
+
+                // 提示用户更换模型或设置图片描述模型
+                if (
+                    error instanceof ChatLunaError &&
+                    error.errorCode ===
+                        ChatLunaErrorCode.MODEL_NOT_SUPPORT_IMAGE_INPUT
+                ) {
+                    context.message = session.text(
+                        'chatluna.image_input_not_supported',
+                        [room.model]
                     )
-                } else {
-                    throw e
+
+                    return ChainMiddlewareRunStatus.STOP
                 }
+
+                throw error
             } finally {
                 bufferText.end()
             }
 
+            const [conversation] = await ctx.database.get(
+                'chathub_conversation',
+                room.conversationId
+            )
+
+            reply.messageId = conversation?.latestId
+
+            const responseModel =
+                (responseMessage.additional_kwargs?.model as string) ??
+                room.model
+
+            context.options.responseModel = responseModel
+            context.options.tokenUsage = tokenUsage
+
+            // 失败的模型消耗的 token 同样需要计费
+            const pricedAttempts = await Promise.all(
+                attempts.map(async (attempt) => ({
+                    ...attempt,
+                    cost: await ctx.chatluna_auth.resolveCost(
+                        session,
+                        attempt.model,
+                        attempt.usage
+                    )
+                }))
+            )
+
+            const cost = pricedAttempts.reduce(
+                (sum, attempt) => sum + attempt.cost,
+                0
+            )
+
+            if (config.authSystem === true && cost > 0) {
+                const balance = await ctx.chatluna_auth.modifyBalance(
+                    session,
+                    -cost
+                )
+
+                logger.debug(`current balance: ${balance}`)
+            }
+
+            await saveUsageRecords(ctx, session, room, pricedAttempts)
+
+            if (responseModel !== room.model) {
+                logger.warn(
+                    `The model ${room.model} of room ${room.roomName} failed, response by fallback model ${responseModel}`
+                )
+
+                await context.send(
+                    session.text('chatluna.fallback_model', [
+                        room.model,
+                        responseModel
+                    ])
+                )
+            }
+
+            await sendReasoningContent(
+                context,
+                session,
+                config,
+                room,
+                responseMessage
+            )
+
             if (!config.streamResponse) {
                 context.options.responseMessage = responseMessage
             } else {
@@ -263,9 +389,17 @@ async function handleEditMessage(
 
         if (messageId == null) {
             try {
-                messageId = await session.bot
-                    .sendMessage(session.channelId, text)
-                    .then((messageIds) => messageIds[0])
+                const messageIds = await session.bot.sendMessage(
+                    session.channelId,
+                    text
+                )
+
+                messageId = messageIds[0]
+
+                // 没有经过聊天链发送，需要手动调用发送后的回调
+                for (const afterSend of context.afterSends ?? []) {
+                    await afterSend(messageIds)
+                }
             } catch (error) {
                 logger.error('Error sending message:', error)
             }
@@ -278,6 +412,35 @@ async function handleEditMessage(
     isFinished = true
 }
 
+async function sendReasoningContent(
+    context: ChainMiddlewareContext,
+    session: Session,
+    config: Config,
+    room: ConversationRoom,
+    message: Message
+) {
+    const reasoningContent = message.additional_kwargs?.reasoningContent as
+        | string
+        | undefined
+
+    if (reasoningContent == null || reasoningContent.length < 1) {
+        return
+    }
+
+    const displayMode = room.reasoningDisplayMode ?? config.reasoningDisplayMode
+
+    const text = session.text('chatluna.reasoning_content', [reasoningContent])
+
+    if (displayMode === 'separate') {
+        await context.send(text)
+    } else if (displayMode === 'collapsed') {
+        // 合并转发消息在大多数平台上默认折叠显示
+        await context.send(
+            h('message', { forward: true }, h('message', h.text(text)))
+        )
+    }
+}
+
 function getSystemPromptVariables(
     session: Session,
     config: Config,
@@ -306,6 +469,75 @@ function getSystemPromptVariables(
     }
 }
 
+interface ModelAttempt {
+    // 解析别名后的模型
+    model: string
+    usage: TokenUsage
+    startTime: number
+}
+
+function createTokenUsage(): TokenUsage {
+    return {
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0
+    }
+}
+
+function createModelAttempt(
+    ctx: Context,
+    model: string,
+    startTime: number
+): ModelAttempt {
+    return {
+        model: ctx.chatluna.platform.resolveModelAlias(model)[0],
+        usage: createTokenUsage(),
+        startTime
+    }
+}
+
+// 除最后一个模型外都是请求失败后回退的模型，errorCode 为最后一个模型失败时的错误
+async function saveUsageRecords(
+    ctx: Context,
+    session: Session,
+    room: ConversationRoom,
+    attempts: (ModelAttempt & { cost: number })[],
+    errorCode?: number
+) {
+    const endTime = Date.now()
+
+    const records = attempts.map((attempt, index): ChatLunaUsageRecord => {
+        const isLast = index === attempts.length - 1
+
+        return {
+            userId: session.userId,
+            roomId: room.roomId,
+            model: attempt.model,
+            promptTokens: attempt.usage.promptTokens,
+            completionTokens: attempt.usage.completionTokens,
+            cost: attempt.cost,
+            latency:
+                (isLast ? endTime : attempts[index + 1].startTime) -
+                attempt.startTime,
+            success: isLast && errorCode == null,
+            errorCode: isLast ? errorCode : undefined,
+            createdAt: new Date()
+        }
+    })
+
+    for (const record of records) {
+        try {
+            await ctx.database.create('chathub_usage', record)
+        } catch (e) {
+            logger.error('Error saving usage record:', e)
+        }
+    }
+}
+
+export function getReplyMessage(session: Session, messageId: string) {
+    return replyMessageCache.get(session.platform + ':' + messageId)
+}
+
 export function getRequestId(session: Session, room: ConversationRoom) {
     const userKey =
         session.userId +
@@ -397,6 +629,12 @@ async function sendMessage(
     await context.send(renderedMessage)
 }
 
+export interface ReplyMessage {
+    conversationId: string
+    // 回复对应的 AI 消息，生成完成后才会设置
+    messageId?: string
+}
+
 declare module '../chains/chain' {
     interface ChainMiddlewareName {
         request_model: never
@@ -406,5 +644,7 @@ declare module '../chains/chain' {
         responseMessage?: Message
         inputMessage?: Message
         queueCount?: number
+        responseModel?: string
+        tokenUsage?: TokenUsage
     }
 }
@@ -224,6 +224,17 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
                     await ctx.chatluna.clearCache(joinRoom)
                 }
 
+                // 备用模型的变更不需要清空聊天记录，只需要写入数据库并清除缓存
+                const fallbackModels = config.defaultModelFallbacks ?? []
+                if (
+                    JSON.stringify(joinRoom.fallbackModels ?? []) !==
+                    JSON.stringify(fallbackModels)
+                ) {
+                    joinRoom.fallbackModels = fallbackModels
+                    await ctx.database.upsert('chathub_room', [joinRoom])
+                    await ctx.chatluna.clearCache(joinRoom)
+                }
+
                 joinRoom.model = config.defaultModel
                 joinRoom.preset = config.defaultPreset
                 joinRoom.chatMode = config.defaultChatMode
@@ -41,10 +41,52 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
             buffer.push(session.text('.room_id', [room.roomId]))
             buffer.push(session.text('.room_preset', [room.preset]))
             buffer.push(session.text('.room_model', [room.model]))
+            if (room.fallbackModels?.length > 0) {
+                buffer.push(
+                    session.text('.room_fallback_models', [
+                        room.fallbackModels.join(' -> ')
+                    ])
+                )
+            }
+            if (Object.keys(room.modelParams ?? {}).length > 0) {
+                buffer.push(
+                    session.text('.room_model_params', [
+                        Object.entries(room.modelParams)
+                            .map(
+                                ([key, value]) =>
+                                    `${key}=${Array.isArray(value) ? JSON.stringify(value) : value}`
+                            )
+                            .join(', ')
+                    ])
+                )
+            }
+            if (room.reasoningDisplayMode != null) {
+                buffer.push(
+                    session.text('.room_reasoning_display_mode', [
+                        room.reasoningDisplayMode
+                    ])
+                )
+            }
             buffer.push(session.text('.room_visibility', [room.visibility]))
             buffer.push(session.text('.room_chat_mode', [room.chatMode]))
             buffer.push(session.text('.room_master_id', [room.roomMasterId]))
 
+            if (room.forkFromRoomId != null) {
+                const originRoom = (
+                    await ctx.database.get('chathub_room', {
+                        roomId: room.forkFromRoomId
+                    })
+                )?.[0]
+
+                buffer.push(
+                    session.text('.room_fork_from', [
+                        originRoom?.roomName ?? session.text('.deleted_room'),
+                        room.forkFromRoomId,
+                        room.forkAtMessage
+                    ])
+                )
+            }
+
             context.message = buffer.join('\n')
 
             return ChainMiddlewareRunStatus.STOP
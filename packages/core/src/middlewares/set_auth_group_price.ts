@@ -0,0 +1,87 @@
+import { Context } from 'koishi'
+import { ModelType } from 'koishi-plugin-chatluna/llm-core/platform/types'
+import { ChainMiddlewareRunStatus, ChatChain } from '../chains/chain'
+import { Config } from '../config'
+
+export function apply(ctx: Context, config: Config, chain: ChatChain) {
+    chain
+        .middleware('set_auth_group_price', async (session, context) => {
+            const {
+                command,
+                // eslint-disable-next-line @typescript-eslint/naming-convention
+                options: { auth_group_resolve, authModelPrice }
+            } = context
+
+            if (command !== 'set_auth_group_price')
+                return ChainMiddlewareRunStatus.SKIPPED
+
+            const service = ctx.chatluna_auth
+
+            const authGroup = await service.getAuthGroup(
+                auth_group_resolve.name,
+                false
+            )
+
+            if (authGroup == null) {
+                context.message = session.text('.group_not_found', [
+                    auth_group_resolve.name
+                ])
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            const { model, input, output } = authModelPrice
+
+            if (input == null) {
+                await service.setModelPrice(authGroup, model)
+
+                context.message = session.text('.removed', [
+                    authGroup.name,
+                    model
+                ])
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            if (
+                !ctx.chatluna.platform
+                    .getAllModels(ModelType.llm)
+                    .includes(model)
+            ) {
+                context.message = session.text('.model_not_found', [model])
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            if (input < 0 || (output ?? input) < 0) {
+                context.message = session.text('.invalid_price')
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            await service.setModelPrice(authGroup, model, {
+                input,
+                output: output ?? input
+            })
+
+            context.message = session.text('.success', [
+                authGroup.name,
+                model,
+                input,
+                output ?? input
+            ])
+
+            return ChainMiddlewareRunStatus.STOP
+        })
+        .after('lifecycle-handle_command')
+}
+
+declare module '../chains/chain' {
+    interface ChainMiddlewareName {
+        set_auth_group_price: never
+    }
+
+    interface ChainMiddlewareContextOptions {
+        authModelPrice?: {
+            model: string
+            input?: number
+            output?: number
+        }
+    }
+}
@@ -1,9 +1,26 @@
-import { Context } from 'koishi'
-import { ModelType } from 'koishi-plugin-chatluna/llm-core/platform/types'
-import { ChainMiddlewareRunStatus, ChatChain } from '../chains/chain'
-import { checkAdmin, getAllJoinedConversationRoom } from '../chains/rooms'
+import { Context, Session } from 'koishi'
+import {
+    ModelGenerationParams,
+    ModelType
+} from 'koishi-plugin-chatluna/llm-core/platform/types'
+import {
+    findInvalidModelParam,
+    pickGenerationParams
+} from 'koishi-plugin-chatluna/llm-core/platform/service'
+import {
+    ChainMiddlewareContext,
+    ChainMiddlewareRunStatus,
+    ChatChain
+} from '../chains/chain'
+import {
+    applyPresetRequirements,
+    checkAdmin,
+    getAllJoinedConversationRoom
+} from '../chains/rooms'
 import { Config } from '../config'
-import { ConversationRoom } from '../types'
+import { ConversationRoom, ReasoningDisplayMode } from '../types'
+
+const reasoningDisplayModes = ['collapsed', 'separate', 'hidden', 'default']
 
 export function apply(ctx: Context, config: Config, chain: ChatChain) {
     const service = ctx.chatluna.platform
@@ -66,6 +83,44 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
                 }
 
                 if (result === 'Y') {
+                    const notFoundModel = room_resolve.fallbackModels?.find(
+                        (model) =>
+                            !service.getAllModels(ModelType.llm).includes(model)
+                    )
+
+                    if (notFoundModel != null) {
+                        context.message = session.text('.model_not_found', [
+                            notFoundModel
+                        ])
+                        return ChainMiddlewareRunStatus.STOP
+                    }
+
+                    const invalidParam = findInvalidModelParam(
+                        room_resolve.modelParams
+                    )
+
+                    if (invalidParam != null) {
+                        context.message = session.text(
+                            '.invalid_model_param',
+                            invalidParam
+                        )
+                        return ChainMiddlewareRunStatus.STOP
+                    }
+
+                    const reasoningDisplayMode =
+                        room_resolve.reasoningDisplayMode
+
+                    if (
+                        reasoningDisplayMode != null &&
+                        !reasoningDisplayModes.includes(reasoningDisplayMode)
+                    ) {
+                        context.message = session.text(
+                            '.invalid_reasoning_display_mode',
+                            [reasoningDisplayMode]
+                        )
+                        return ChainMiddlewareRunStatus.STOP
+                    }
+
                     if (
                         (!session.isDirect || room.visibility !== 'private') &&
                         room_resolve.password != null
@@ -81,6 +136,27 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
                         (room_resolve.visibility as ConversationRoom['visibility']) ??
                         room.visibility
                     room.model = room_resolve.model ?? room.model
+                    room.fallbackModels =
+                        room_resolve.fallbackModels ?? room.fallbackModels
+                    room.modelParams = mergeModelParams(
+                        room_resolve.resetModelParams ? {} : room.modelParams,
+                        room_resolve.modelParams
+                    )
+
+                    if (reasoningDisplayMode === 'default') {
+                        room.reasoningDisplayMode = null
+                    } else if (reasoningDisplayMode != null) {
+                        room.reasoningDisplayMode =
+                            reasoningDisplayMode as ReasoningDisplayMode
+                    }
+
+                    await sendPresetRequirements(
+                        ctx,
+                        session,
+                        context,
+                        room,
+                        oldPreset
+                    )
 
                     await ctx.database.upsert('chathub_room', [room])
 
@@ -290,6 +366,8 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
 
             // 7. 更新房间
 
+            await sendPresetRequirements(ctx, session, context, room, oldPreset)
+
             await ctx.database.upsert('chathub_room', [room])
 
             if (room.preset !== oldPreset) {
@@ -307,6 +385,40 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
         .after('lifecycle-handle_command')
 }
 
+async function sendPresetRequirements(
+    ctx: Context,
+    session: Session,
+    context: ChainMiddlewareContext,
+    room: ConversationRoom,
+    oldPreset: string
+) {
+    if (room.preset === oldPreset) {
+        return
+    }
+
+    const notices = await applyPresetRequirements(ctx, session, room)
+
+    if (notices.length > 0) {
+        await context.send(notices.join('\n'))
+    }
+}
+
+function mergeModelParams(
+    current: ModelGenerationParams,
+    update: ModelGenerationParams
+): ModelGenerationParams {
+    // 未设置的参数保持不变，stop 为空数组时清空
+    const { stop, ...params } = update ?? {}
+
+    const merged = { ...current, ...pickGenerationParams(params) }
+
+    if (stop != null) {
+        merged.stop = stop
+    }
+
+    return pickGenerationParams(merged)
+}
+
 declare module '../chains/chain' {
     interface ChainMiddlewareName {
         set_room: never
@@ -0,0 +1,110 @@
+import { Context } from 'koishi'
+import { Config } from '../config'
+import { ChainMiddlewareRunStatus, ChatChain } from '../chains/chain'
+import {
+    getAllJoinedConversationRoom,
+    getConversationMessages
+} from '../chains/rooms'
+import { getMessageContent } from 'koishi-plugin-chatluna/utils/string'
+
+export function apply(ctx: Context, config: Config, chain: ChatChain) {
+    chain
+        .middleware('swipe_chat', async (session, context) => {
+            const { command } = context
+
+            if (command !== 'swipe') return ChainMiddlewareRunStatus.SKIPPED
+
+            let room = context.options.room
+
+            if (room == null && context.options.room_resolve != null) {
+                // 尝试完整搜索一次
+
+                const rooms = await getAllJoinedConversationRoom(
+                    ctx,
+                    session,
+                    true
+                )
+
+                const roomId = parseInt(context.options.room_resolve?.name)
+
+                room = rooms.find(
+                    (room) =>
+                        room.roomName === context.options.room_resolve?.name ||
+                        room.roomId === roomId
+                )
+            }
+
+            if (room == null) {
+                context.message = session.text('.room_not_found')
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            const messages = await getConversationMessages(
+                ctx,
+                room.conversationId
+            )
+
+            const aiMessage = messages[messages.length - 1]
+
+            if (aiMessage?.role !== 'ai') {
+                context.message = session.text('.no_chat_history')
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            const aiKwargs = JSON.parse(aiMessage.additional_kwargs ?? '{}')
+
+            const alternatives = aiKwargs.alternatives ?? [
+                JSON.parse(aiMessage.text as string)
+            ]
+
+            const index = context.options.swipeIndex
+
+            if (index == null || index < 1 || index > alternatives.length) {
+                context.message = session.text('.invalid_index', [
+                    index,
+                    alternatives.length
+                ])
+                return ChainMiddlewareRunStatus.STOP
+            }
+
+            aiKwargs.alternatives = alternatives
+            aiKwargs.alternativeIndex = index - 1
+
+            await ctx.database.upsert('chathub_message', [
+                {
+                    ...aiMessage,
+                    text: JSON.stringify(alternatives[index - 1]),
+                    additional_kwargs: JSON.stringify(aiKwargs)
+                }
+            ])
+
+            // 让缓存的聊天记录重新加载
+            await ctx.database.upsert('chathub_conversation', [
+                {
+                    id: room.conversationId,
+                    updatedAt: new Date()
+                }
+            ])
+
+            await ctx.chatluna.clearCache(room)
+
+            context.message = session.text('.success', [
+                index,
+                alternatives.length,
+                getMessageContent(alternatives[index - 1])
+            ])
+
+            return ChainMiddlewareRunStatus.STOP
+        })
+        .after('lifecycle-handle_command')
+}
+
+declare module '../chains/chain' {
+    interface ChainMiddlewareName {
+        swipe_chat: never
+    }
+
+    interface ChainMiddlewareContextOptions {
+        swipeIndex?: number
+    }
+}
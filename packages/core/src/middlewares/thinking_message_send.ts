@@ -1,10 +1,6 @@
 import { Context, Logger } from 'koishi'
 import { Config } from '../config'
-import {
-    ChainMiddlewareContextOptions,
-    ChainMiddlewareRunStatus,
-    ChatChain
-} from '../chains/chain'
+import { ChainMiddlewareRunStatus, ChatChain } from '../chains/chain'
 import { createLogger } from 'koishi-plugin-chatluna/utils/logger'
 
 let logger: Logger
@@ -20,11 +16,39 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
             const thinkingTimeoutObject: ThinkingTimeoutObject = {}
             context.options.thinkingTimeoutObject = thinkingTimeoutObject
 
+            const queueCountPromise = new Promise<void>((resolve) => {
+                thinkingTimeoutObject.updateQueuePosition = async (
+                    position
+                ) => {
+                    context.options.queueCount = position
+                    resolve()
+
+                    const messageId = thinkingTimeoutObject.messageId
+
+                    // 开始处理后等待消息会在首次回复时撤回，无需再更新
+                    if (messageId == null || position < 1) {
+                        return
+                    }
+
+                    try {
+                        await session.bot.editMessage(
+                            session.channelId,
+                            messageId,
+                            session.text('chatluna.thinking_message', [
+                                position.toString()
+                            ])
+                        )
+                    } catch (e) {
+                        // 部分平台不支持编辑消息
+                        logger.debug(e)
+                    }
+                }
+            })
+
             thinkingTimeoutObject.timeout = setTimeout(async () => {
-                const queueCount = await getQueueCount(
-                    thinkingTimeoutObject,
-                    context.options
-                )
+                await queueCountPromise
+
+                const queueCount = context.options.queueCount
 
                 if (thinkingTimeoutObject.timeout == null || queueCount < 1) {
                     return
@@ -36,6 +60,8 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
                     ])
                 )
 
+                thinkingTimeoutObject.messageId = messageIds[0]
+
                 thinkingTimeoutObject.recallFunc = async () => {
                     try {
                         await session.bot.deleteMessage(
@@ -47,6 +73,7 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
                     }
                     thinkingTimeoutObject.autoRecallTimeout = undefined
                     thinkingTimeoutObject.timeout = undefined
+                    thinkingTimeoutObject.messageId = undefined
                 }
 
                 thinkingTimeoutObject.autoRecallTimeout = setTimeout(
@@ -63,26 +90,12 @@ export function apply(ctx: Context, config: Config, chain: ChatChain) {
         .before('lifecycle-prepare')
 }
 
-async function getQueueCount(
-    obj: ThinkingTimeoutObject,
-    options: ChainMiddlewareContextOptions
-) {
-    await new Promise((resolve, reject) => {
-        const timer = setInterval(() => {
-            if (obj.timeout != null && options.queueCount != null) {
-                clearInterval(timer)
-                resolve(undefined)
-            }
-        })
-    })
-
-    return options.queueCount
-}
-
 export interface ThinkingTimeoutObject {
     timeout?: NodeJS.Timeout
     recallFunc?: () => PromiseLike<void>
     autoRecallTimeout?: NodeJS.Timeout
+    messageId?: string
+    updateQueuePosition?: (position: number) => Promise<void>
 }
 
 declare module '../chains/chain' {
@@ -71,6 +71,7 @@ export class ChatLunaService extends Service {
         this._keysCache = new Cache(this.ctx, config, 'chathub/keys')
         this._preset = new PresetService(ctx, config, this._keysCache)
         this._platformService = new PlatformService(ctx)
+        this._platformService.setModelAliases(config.modelAliases ?? [])
         this._messageTransformer = new MessageTransformer()
         this._renderer = new DefaultRenderer(ctx, config)
 
@@ -157,7 +158,8 @@ export class ChatLunaService extends Service {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         variables: Record<string, any> = {},
         postHandler?: PostHandler,
-        requestId: string = uuidv4()
+        requestId: string = uuidv4(),
+        priority: number = 0
     ) {
         const chatInterfaceWrapper =
             this._chatInterfaceWrapper ?? this._createChatInterfaceWrapper()
@@ -170,7 +172,8 @@ export class ChatLunaService extends Service {
             stream,
             requestId,
             variables,
-            postHandler
+            postHandler,
+            priority
         )
     }
 
@@ -184,6 +187,10 @@ export class ChatLunaService extends Service {
         return chatInterfaceWrapper.stopChat(requestId)
     }
 
+    getQueuedRequests() {
+        return this._chatInterfaceWrapper?.getQueuedRequests() ?? []
+    }
+
     queryInterfaceWrapper(room: ConversationRoom, autoCreate: boolean = true) {
         return (
             this._chatInterfaceWrapper ??
@@ -390,6 +397,19 @@ export class ChatLunaService extends Service {
                     type: 'char',
                     length: 100
                 },
+                fallbackModels: {
+                    type: 'json',
+                    nullable: true
+                },
+                modelParams: {
+                    type: 'json',
+                    nullable: true
+                },
+                reasoningDisplayMode: {
+                    type: 'char',
+                    length: 20,
+                    nullable: true
+                },
                 chatMode: {
                     type: 'char',
                     length: 20
@@ -402,6 +422,14 @@ export class ChatLunaService extends Service {
                     type: 'boolean',
                     initial: true
                 },
+                forkFromRoomId: {
+                    type: 'integer',
+                    nullable: true
+                },
+                forkAtMessage: {
+                    type: 'integer',
+                    nullable: true
+                },
                 updatedTime: {
                     type: 'timestamp',
                     nullable: false,
@@ -482,6 +510,60 @@ export class ChatLunaService extends Service {
                 primary: ['userId', 'groupId']
             }
         )
+
+        ctx.database.extend(
+            'chathub_usage',
+            {
+                id: 'integer',
+                userId: {
+                    type: 'char',
+                    length: 255
+                },
+                roomId: {
+                    type: 'integer'
+                },
+                model: {
+                    type: 'char',
+                    length: 100
+                },
+                promptTokens: {
+                    type: 'integer',
+                    initial: 0
+                },
+                completionTokens: {
+                    type: 'integer',
+                    initial: 0
+                },
+                cost: {
+                    type: 'decimal',
+                    precision: 12,
+                    scale: 6,
+                    initial: 0
+                },
+                latency: {
+                    type: 'integer',
+                    initial: 0
+                },
+                success: {
+                    type: 'boolean',
+                    initial: true
+                },
+                errorCode: {
+                    type: 'integer',
+                    nullable: true
+                },
+                createdAt: {
+                    type: 'timestamp',
+                    nullable: false,
+                    initial: new Date()
+                }
+            },
+            {
+                autoInc: true,
+                primary: 'id',
+                unique: ['id']
+            }
+        )
     }
 
     private _createChatInterfaceWrapper(): ChatInterfaceWrapper {
@@ -518,9 +600,7 @@ export class ChatLunaPlugin<
         if (createConfigPool) {
             this._platformConfigPool = new ClientConfigPool<R>(
                 ctx,
-                config.configMode === 'default'
-                    ? ClientConfigPoolMode.AlwaysTheSame
-                    : ClientConfigPoolMode.LoadBalancing
+                getConfigPoolMode(config.configMode)
             )
         }
 
@@ -531,7 +611,14 @@ export class ChatLunaPlugin<
         const configs = f(this.config)
 
         for (const config of configs) {
-            await this._platformConfigPool.addConfig(config)
+            const configWeight = this.config.configWeights?.find(
+                (item) => item.apiKey === config.apiKey
+            )
+
+            await this._platformConfigPool.addConfig(config, {
+                weight: configWeight?.weight,
+                quota: configWeight?.quota
+            })
         }
     }
 
@@ -677,6 +764,16 @@ export class ChatLunaPlugin<
     }
 }
 
+export interface QueuedChatRequest {
+    conversationId: string
+    requestId: string
+    userId: string
+    platform?: string
+    priority: number
+    // 0 表示正在处理
+    position?: number
+}
+
 type ChatHubChatBridgerInfo = {
     chatInterface: ChatInterface
     room: ConversationRoom
@@ -688,8 +785,8 @@ class ChatInterfaceWrapper {
             max: 40
         })
 
-    private _modelQueue = new RequestIdQueue()
-    private _conversationQueue = new RequestIdQueue()
+    private _modelQueue: RequestIdQueue
+    private _conversationQueue: RequestIdQueue
     private _platformService: PlatformService
 
     private _requestIdMap: Map<string, AbortController> = new Map()
@@ -697,6 +794,10 @@ class ChatInterfaceWrapper {
 
     constructor(private _service: ChatLunaService) {
         this._platformService = _service.platform
+
+        const maxQueueSize = _service.config.maxQueueSize ?? 50
+        this._modelQueue = new RequestIdQueue(maxQueueSize)
+        this._conversationQueue = new RequestIdQueue(maxQueueSize)
     }
 
     async chat(
@@ -708,36 +809,116 @@ class ChatInterfaceWrapper {
         requestId: string,
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         variables: Record<string, any> = {},
-        postHandler?: PostHandler
+        postHandler?: PostHandler,
+        priority: number = 0
     ): Promise<Message> {
-        const { conversationId, model: fullModelName } = room
+        const { conversationId } = room
 
-        const [platform] = parseRawModelName(fullModelName)
+        // 别名房间需要先解析为实际的模型，才能找到平台的配置和队列
+        const [platform] = parseRawModelName(
+            this._platformService.resolveModelAlias(room.model)[0]
+        )
 
-        const config = this._platformService.getConfigs(platform)[0]
+        const maxQueueLength = this._getConcurrentMaxSize(platform)
+
+        // 当前占用并发位置的平台，回退到其他平台时会改变
+        let currentPlatform = platform
+
+        const notifyQueuePosition = (position: number) => {
+            event['llm-queue-waiting']?.(position)?.catch((e) => {
+                this._service.logger.error(e)
+            })
+        }
 
-        const maxQueueLength = config.value.concurrentMaxSize
-        const currentQueueLength =
-            await this._modelQueue.getQueueLength(platform)
+        await this._conversationQueue.add(conversationId, requestId, {
+            priority,
+            userId: session.userId,
+            // 房间内排队结束后，改为通知模型平台的排队位置
+            onPositionChange: (position) => {
+                if (position > 0) notifyQueuePosition(position)
+            }
+        })
 
-        await this._conversationQueue.add(conversationId, requestId)
-        await this._modelQueue.add(platform, requestId)
+        try {
+            await this._modelQueue.add(platform, requestId, {
+                priority,
+                userId: session.userId,
+                onPositionChange: notifyQueuePosition
+            })
+        } catch (e) {
+            await this._conversationQueue.remove(conversationId, requestId)
+            throw e
+        }
 
-        await event['llm-queue-waiting'](currentQueueLength)
+        try {
+            await this._conversationQueue.wait(conversationId, requestId, 0)
 
-        await this._conversationQueue.wait(conversationId, requestId, 0)
+            await this._modelQueue.wait(platform, requestId, maxQueueLength)
 
-        await this._modelQueue.wait(platform, requestId, maxQueueLength)
+            const abortController = new AbortController()
+            this._requestIdMap.set(requestId, abortController)
 
-        const abortController = new AbortController()
-        this._requestIdMap.set(requestId, abortController)
+            // 回退到其他平台的模型时，同样需要遵守该平台的并发限制
+            const waitFallbackPlatform = async (model: string) => {
+                const [fallbackPlatform] = parseRawModelName(
+                    this._platformService.resolveModelAlias(model)[0]
+                )
 
-        const conversationIds =
-            this._platformToConversations.get(platform) ?? []
-        conversationIds.push(conversationId)
-        this._platformToConversations.set(platform, conversationIds)
+                if (fallbackPlatform === currentPlatform) {
+                    return
+                }
+
+                const maxConcurrent =
+                    this._getConcurrentMaxSize(fallbackPlatform)
+
+                await this._modelQueue.remove(currentPlatform, requestId)
+                currentPlatform = fallbackPlatform
+
+                await this._modelQueue.add(fallbackPlatform, requestId, {
+                    priority,
+                    userId: session.userId,
+                    onPositionChange: notifyQueuePosition
+                })
+
+                const signal = abortController.signal
+
+                if (signal.aborted) {
+                    throw new ChatLunaError(ChatLunaErrorCode.ABORTED)
+                }
+
+                // 排队时停止请求，需要从队列中取消
+                const onAbort = () => this._modelQueue.cancel(requestId)
+                signal.addEventListener('abort', onAbort)
+
+                try {
+                    await this._modelQueue.wait(
+                        fallbackPlatform,
+                        requestId,
+                        maxConcurrent
+                    )
+                } finally {
+                    signal.removeEventListener('abort', onAbort)
+                }
+            }
+
+            for (const fallbackPlatform of new Set([
+                platform,
+                ...(room.fallbackModels ?? []).map(
+                    (model) =>
+                        parseRawModelName(
+                            this._platformService.resolveModelAlias(model)[0]
+                        )[0]
+                )
+            ])) {
+                const conversationIds =
+                    this._platformToConversations.get(fallbackPlatform) ?? []
+                conversationIds.push(conversationId)
+                this._platformToConversations.set(
+                    fallbackPlatform,
+                    conversationIds
+                )
+            }
 
-        try {
             const { chatInterface } =
                 this._conversations.get(conversationId) ??
                 (await this._createChatInterface(room))
@@ -754,17 +935,28 @@ class ChatInterfaceWrapper {
 
             const chainValues = await chatInterface.chat({
                 message: humanMessage,
-                events: event,
+                events: {
+                    ...event,
+                    // eslint-disable-next-line @typescript-eslint/naming-convention
+                    'llm-model-fallback': async (model) => {
+                        await waitFallbackPlatform(model)
+                        await event['llm-model-fallback']?.(model)
+                    }
+                },
                 stream,
                 conversationId,
                 session,
                 variables,
-                signal: abortController.signal,
+                signal: this._requestIdMap.get(requestId).signal,
                 postHandler
             })
 
             return {
                 content: (chainValues.message as AIMessage).content as string,
+                additional_kwargs: {
+                    model: chainValues.model,
+                    reasoningContent: chainValues.reasoningContent
+                },
                 additionalReplyMessages: (
                     chainValues.additionalReplyMessages as string[]
                 )?.map((content) => ({
@@ -772,16 +964,47 @@ class ChatInterfaceWrapper {
                 }))
             }
         } finally {
-            await this._modelQueue.remove(platform, requestId)
+            await this._modelQueue.remove(currentPlatform, requestId)
             await this._conversationQueue.remove(conversationId, requestId)
             this._requestIdMap.delete(requestId)
         }
     }
 
+    getQueuedRequests(): QueuedChatRequest[] {
+        const modelEntries = this._modelQueue.getEntries()
+
+        return this._conversationQueue
+            .getEntries()
+            .filter((entry) => entry.userId != null)
+            .map((entry) => {
+                const modelEntry = modelEntries.find(
+                    (modelEntry) => modelEntry.requestId === entry.requestId
+                )
+
+                // 房间内排队结束后，使用模型平台的排队位置
+                const position =
+                    entry.position === 0 ? modelEntry?.position : entry.position
+
+                return {
+                    conversationId: entry.key,
+                    requestId: entry.requestId,
+                    userId: entry.userId,
+                    platform: modelEntry?.key,
+                    priority: entry.priority,
+                    position
+                }
+            })
+    }
+
     stopChat(requestId: string) {
         const abortController = this._requestIdMap.get(requestId)
         if (!abortController) {
-            return false
+            // 请求仍在排队中，直接从队列中取消
+            const cancelledModel = this._modelQueue.cancel(requestId)
+            const cancelledConversation =
+                this._conversationQueue.cancel(requestId)
+
+            return cancelledModel || cancelledConversation
         }
         abortController.abort()
         return true
@@ -826,6 +1049,7 @@ class ChatInterfaceWrapper {
         await this._conversationQueue.wait(conversationId, requestId, 0)
 
         if (!this._conversations.has(conversationId)) {
+            await this._conversationQueue.remove(conversationId, requestId)
             return false
         }
 
@@ -881,6 +1105,19 @@ class ChatInterfaceWrapper {
         this._platformToConversations.delete(platform)
     }
 
+    private _getConcurrentMaxSize(platform: string) {
+        const config = this._platformService.getConfigs(platform)[0]
+
+        if (config == null) {
+            throw new ChatLunaError(
+                ChatLunaErrorCode.MODEL_ADAPTER_NOT_FOUND,
+                new Error(`The platform ${platform} no available`)
+            )
+        }
+
+        return config.value.concurrentMaxSize
+    }
+
     private async _createChatInterface(
         room: ConversationRoom
     ): Promise<ChatHubChatBridgerInfo> {
@@ -894,6 +1131,8 @@ class ChatInterfaceWrapper {
                 return await this._service.preset.getPreset(room.preset)
             },
             model: room.model,
+            fallbackModels: room.fallbackModels,
+            modelParams: room.modelParams,
             conversationId: room.conversationId,
             longMemory: config.longMemory,
             embeddings:
@@ -926,11 +1165,18 @@ export namespace ChatLunaPlugin {
         chatTimeLimit?: Computed<Awaitable<number>>
         timeout?: number
         configMode: string
+        configWeights?: ConfigWeight[]
         maxRetries: number
         proxyMode: string
         proxyAddress: string
     }
 
+    export interface ConfigWeight {
+        apiKey: string
+        weight: number
+        quota?: number
+    }
+
     export const Config: Schema<ChatLunaPlugin.Config> = Schema.intersect([
         Schema.object({
             chatConcurrentMaxSize: Schema.number().min(1).max(8).default(3),
@@ -942,7 +1188,10 @@ export namespace ChatLunaPlugin {
                 .default(200),
             configMode: Schema.union([
                 Schema.const('default'),
-                Schema.const('balance')
+                Schema.const('balance'),
+                Schema.const('weighted'),
+                Schema.const('least_busy'),
+                Schema.const('usage')
             ]).default('default'),
             maxRetries: Schema.number().min(1).max(6).default(3),
             timeout: Schema.number().default(300 * 1000),
@@ -958,6 +1207,24 @@ export namespace ChatLunaPlugin {
                 proxyAddress: Schema.string().default('')
             }),
             Schema.object({})
+        ]),
+        Schema.union([
+            Schema.object({
+                configMode: Schema.union([
+                    Schema.const('weighted'),
+                    Schema.const('usage')
+                ]).required(),
+                configWeights: Schema.array(
+                    Schema.object({
+                        apiKey: Schema.string().role('secret'),
+                        weight: Schema.number().min(0).default(1),
+                        quota: Schema.number().min(0).default(0)
+                    })
+                )
+                    .role('table')
+                    .default([])
+            }),
+            Schema.object({})
         ])
     ]).i18n({
         'zh-CN': require('../locales/zh-CN.schema.plugin.yml'),
@@ -965,3 +1232,18 @@ export namespace ChatLunaPlugin {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
     }) as any
 }
+
+function getConfigPoolMode(configMode: string) {
+    switch (configMode) {
+        case 'balance':
+            return ClientConfigPoolMode.LoadBalancing
+        case 'weighted':
+            return ClientConfigPoolMode.Weighted
+        case 'least_busy':
+            return ClientConfigPoolMode.LeastBusy
+        case 'usage':
+            return ClientConfigPoolMode.UsageAware
+        default:
+            return ClientConfigPoolMode.AlwaysTheSame
+    }
+}
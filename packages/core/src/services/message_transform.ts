@@ -61,6 +61,23 @@ export class MessageTransformer {
                     ...quoteMessage.additional_kwargs['images']
                 ]
             }
+
+            if (quoteMessage.additional_kwargs['files']) {
+                const currentFiles = message.additional_kwargs['files'] ?? []
+                message.additional_kwargs['files'] = [
+                    ...currentFiles,
+                    ...quoteMessage.additional_kwargs['files']
+                ]
+            }
+        }
+
+        // 只发送了图片时，使用默认的提问
+        if (
+            !quote &&
+            message.content.length < 1 &&
+            message.additional_kwargs['images']?.length > 0
+        ) {
+            message.content = 'what is this?'
         }
 
         return message
@@ -1,17 +1,24 @@
 import { Session } from 'koishi'
 import {
+    ChatLunaUsageRecord,
     ConversationRoom,
     ConversationRoomGroupInfo,
     ConversationRoomMemberInfo,
     ConversationRoomUserInfo
 } from '../types'
 import { ChatLunaService } from './chat'
+import { TokenUsage } from '../llm-core/platform/types'
 
 export interface ChatEvents {
     'llm-new-token'?: (token: string) => Promise<void>
     'llm-queue-waiting'?: (size: number) => Promise<void>
-    'llm-used-token-count'?: (token: number) => Promise<void>
+    'llm-used-token-count'?: (
+        token: number,
+        usage?: TokenUsage
+    ) => Promise<void>
     'llm-call-tool'?: (tool: string, args: string) => Promise<void>
+    // 回退到其他模型前调用，传入回退的模型
+    'llm-model-fallback'?: (model: string) => Promise<void>
 }
 
 declare module 'koishi' {
@@ -28,5 +35,6 @@ declare module 'koishi' {
         chathub_room_member: ConversationRoomMemberInfo
         chathub_room_group_member: ConversationRoomGroupInfo
         chathub_user: ConversationRoomUserInfo
+        chathub_usage: ChatLunaUsageRecord
     }
 }
@@ -1,4 +1,6 @@
+import { MessageContent } from '@langchain/core/messages'
 import { h } from 'koishi'
+import { ModelGenerationParams } from 'koishi-plugin-chatluna/llm-core/platform/types'
 
 export interface ConversationRoom {
     visibility: 'public' | 'private' | 'template_clone'
@@ -8,15 +10,41 @@ export interface ConversationRoom {
     conversationId?: string
     preset: string
     model: string
+    fallbackModels?: string[]
+    // 房间级别的生成参数，覆盖模型的默认参数
+    modelParams?: ModelGenerationParams
+    // 推理内容的展示方式，为空时使用全局配置
+    reasoningDisplayMode?: ReasoningDisplayMode
     chatMode: string
     password?: string
     autoUpdate?: boolean
     updatedTime: Date
 
+    // 分叉来源
+    forkFromRoomId?: number
+    forkAtMessage?: number
+
     // allowGroups?: string[]
     // allowUsers?: string[]
 }
 
+export type ReasoningDisplayMode = 'collapsed' | 'separate' | 'hidden'
+
+export interface ChatLunaUsageRecord {
+    id?: number
+    userId: string
+    roomId: number
+    model: string
+    promptTokens: number
+    completionTokens: number
+    cost: number
+    // 毫秒
+    latency: number
+    success: boolean
+    errorCode?: number
+    createdAt: Date
+}
+
 export interface ConversationRoomMemberInfo {
     userId: string
     roomId: number
@@ -64,6 +92,35 @@ export interface Message {
     additionalReplyMessages?: Message[]
 }
 
+/**
+ * 导出的会话格式
+ */
+export interface ExportedConversation {
+    format: 'chatluna-conversation'
+    version: number
+    exportedAt: string
+    room: Pick<ConversationRoom, 'roomName' | 'preset' | 'model' | 'chatMode'> &
+        Partial<
+            Pick<
+                ConversationRoom,
+                'fallbackModels' | 'modelParams' | 'reasoningDisplayMode'
+            >
+        >
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    conversation: { additional_kwargs?: Record<string, any> }
+    messages: ExportedMessage[]
+}
+
+export interface ExportedMessage {
+    id: string
+    rawId?: string
+    role: string
+    content: MessageContent
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    additional_kwargs?: Record<string, any>
+    parent?: string
+}
+
 export interface RenderMessage {
     element: h | h[]
 }
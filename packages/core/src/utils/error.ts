@@ -63,6 +63,8 @@ export enum ChatLunaErrorCode {
     PRESET_LOAD_ERROR = 311,
     MODEL_DEPOSE_ERROR = 310,
     LONG_MEMORY_INIT_ERROR = 312,
+    MODEL_STRUCTURED_OUTPUT_ERROR = 313,
+    MODEL_NOT_SUPPORT_IMAGE_INPUT = 314,
     MEMBER_NOT_IN_ROOM = 400,
     ROOM_NOT_JOINED = 401,
     ROOM_NOT_FOUND_MASTER = 402,
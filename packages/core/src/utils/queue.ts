@@ -2,71 +2,285 @@ import {
     ChatLunaError,
     ChatLunaErrorCode
 } from 'koishi-plugin-chatluna/utils/error'
-import { ObjectLock } from 'koishi-plugin-chatluna/utils/lock'
+
+export interface RequestIdQueueOptions {
+    // 优先级越高越先处理，一般来自用户所在的配额组
+    priority?: number
+    // 同优先级下，按用户轮流处理，避免单个用户占满队列
+    userId?: string
+    // 排队位置变化时调用，0 表示已经开始处理
+    onPositionChange?: (position: number) => void
+}
+
+export interface RequestIdQueueEntry {
+    key: string
+    requestId: string
+    userId?: string
+    priority: number
+    // 0 表示正在处理，未开始等待的请求为 undefined
+    position?: number
+}
+
+interface RequestIdQueueItem {
+    requestId: string
+    priority: number
+    userId?: string
+    order: number
+    running: boolean
+    position?: number
+    onPositionChange?: (position: number) => void
+    waiter?: {
+        resolve: () => void
+        reject: (error: Error) => void
+    }
+}
+
+interface RequestIdQueueState {
+    items: RequestIdQueueItem[]
+    maxConcurrent: number
+    // 每个用户最后一次被处理的序号
+    lastServed: Map<string, number>
+}
 
 export class RequestIdQueue {
-    private _queue: Record<string, string[]> = {}
+    private _queue: Record<string, RequestIdQueueState> = {}
 
-    private _lock = new ObjectLock()
+    private _order = 0
 
-    // 200 queue
-    private _maxQueueSize = 50
+    constructor(private _maxQueueSize: number = 50) {}
 
-    public async add(key: string, requestId: string) {
-        const id = await this._lock.lock()
-        if (!this._queue[key]) {
-            this._queue[key] = []
+    public async add(
+        key: string,
+        requestId: string,
+        options: RequestIdQueueOptions = {}
+    ) {
+        const state = this._getState(key)
+
+        if (state.items.some((item) => item.requestId === requestId)) {
+            return
         }
 
-        if (this._queue[key].length >= this._maxQueueSize) {
+        if (state.items.length >= this._maxQueueSize) {
             throw new ChatLunaError(ChatLunaErrorCode.QUEUE_OVERFLOW)
         }
 
-        this._queue[key].push(requestId)
-        await this._lock.unlock(id)
+        state.items.push({
+            requestId,
+            priority: options.priority ?? 0,
+            userId: options.userId,
+            order: this._order++,
+            running: false,
+            onPositionChange: options.onPositionChange
+        })
     }
 
     public async remove(key: string, requestId: string) {
-        const id = await this._lock.lock()
-        if (!this._queue[key]) {
+        this._removeItem(key, requestId)
+    }
+
+    public async wait(key: string, requestId: string, maxConcurrent: number) {
+        await this.add(key, requestId)
+
+        const state = this._queue[key]
+        const item = state.items.find((item) => item.requestId === requestId)
+
+        state.maxConcurrent = Math.max(1, maxConcurrent)
+
+        const promise = new Promise<void>((resolve, reject) => {
+            item.waiter = { resolve, reject }
+        })
+
+        this._dispatch(state)
+
+        await promise
+    }
+
+    /**
+     * Cancel a request that is still waiting in the queue.
+     * The waiter is rejected with an aborted error.
+     * Return whether the request is found and cancelled.
+     */
+    public cancel(requestId: string) {
+        let cancelled = false
+
+        for (const key of Object.keys(this._queue)) {
+            const state = this._queue[key]
+
+            const item = state.items.find(
+                (item) => item.requestId === requestId && !item.running
+            )
+
+            if (item == null) {
+                continue
+            }
+
+            item.waiter?.reject(new ChatLunaError(ChatLunaErrorCode.ABORTED))
+            item.waiter = undefined
+
+            cancelled = true
+
+            // 从队列中移除后，唤醒后续请求
+            this._removeItem(key, requestId)
+        }
+
+        return cancelled
+    }
+
+    public async getQueueLength(key: string) {
+        return this._queue[key]?.items.length ?? 0
+    }
+
+    public getEntries(key?: string): RequestIdQueueEntry[] {
+        const keys = key != null ? [key] : Object.keys(this._queue)
+
+        return keys.flatMap((key) => {
+            const state = this._queue[key]
+
+            if (!state) {
+                return []
+            }
+
+            const waitingItems = this._getWaitingItems(state)
+
+            return state.items.map((item) => {
+                const index = waitingItems.indexOf(item)
+
+                return {
+                    key,
+                    requestId: item.requestId,
+                    userId: item.userId,
+                    priority: item.priority,
+                    position: item.running
+                        ? 0
+                        : index !== -1
+                          ? index + 1
+                          : undefined
+                }
+            })
+        })
+    }
+
+    private _removeItem(key: string, requestId: string) {
+        const state = this._queue[key]
+
+        if (!state) {
             return
         }
 
-        const index = this._queue[key].indexOf(requestId)
+        const index = state.items.findIndex(
+            (item) => item.requestId === requestId
+        )
 
         if (index !== -1) {
-            this._queue[key].splice(index, 1)
+            state.items.splice(index, 1)
         }
-        await this._lock.unlock(id)
+
+        if (state.items.length < 1) {
+            delete this._queue[key]
+            return
+        }
+
+        this._dispatch(state)
     }
 
-    public async wait(key: string, requestId: string, maxConcurrent: number) {
-        if (!this._queue[key]) {
-            await this._lock.runLocked(async () => {})
+    private _getState(key: string) {
+        let state = this._queue[key]
 
-            await this.add(key, requestId)
+        if (!state) {
+            state = {
+                items: [],
+                maxConcurrent: 1,
+                lastServed: new Map()
+            }
+            this._queue[key] = state
         }
 
-        await new Promise((resolve, reject) => {
-            const timer = setInterval(() => {
-                const index = this._queue[key].indexOf(requestId)
+        return state
+    }
 
-                if (index === -1) {
-                    clearInterval(timer)
-                    resolve(undefined)
-                }
+    private _dispatch(state: RequestIdQueueState) {
+        let runningCount = state.items.filter((item) => item.running).length
 
-                if (index < maxConcurrent || index === 0) {
-                    clearInterval(timer)
-                    resolve(undefined)
-                }
-            }, 20)
-        })
+        while (runningCount < state.maxConcurrent) {
+            const next = this._getWaitingItems(state)[0]
+
+            if (next == null) {
+                break
+            }
+
+            next.running = true
+            runningCount++
+
+            if (next.userId != null) {
+                state.lastServed.set(next.userId, this._order++)
+            }
+
+            next.waiter.resolve()
+            next.waiter = undefined
+        }
+
+        this._notifyPositions(state)
     }
 
-    public async getQueueLength(key: string) {
-        return await this._lock.runLocked(
-            async () => this._queue[key]?.length ?? 0
+    private _notifyPositions(state: RequestIdQueueState) {
+        const waitingItems = this._getWaitingItems(state)
+
+        for (const item of state.items) {
+            const index = waitingItems.indexOf(item)
+
+            // 未开始等待的请求不通知
+            if (!item.running && index === -1) {
+                continue
+            }
+
+            const position = item.running ? 0 : index + 1
+
+            if (item.position === position) {
+                continue
+            }
+
+            item.position = position
+            item.onPositionChange?.(position)
+        }
+    }
+
+    private _getWaitingItems(state: RequestIdQueueState) {
+        const waitingItems = state.items.filter(
+            (item) => !item.running && item.waiter != null
         )
+
+        const runningCountByUser = new Map<string, number>()
+
+        for (const item of state.items) {
+            if (item.running && item.userId != null) {
+                runningCountByUser.set(
+                    item.userId,
+                    (runningCountByUser.get(item.userId) ?? 0) + 1
+                )
+            }
+        }
+
+        // 优先级 > 用户当前进行中的请求数 > 用户上次被处理的时间 > 入队顺序
+        return waitingItems.sort((a, b) => {
+            if (a.priority !== b.priority) {
+                return b.priority - a.priority
+            }
+
+            const aRunning = runningCountByUser.get(a.userId) ?? 0
+            const bRunning = runningCountByUser.get(b.userId) ?? 0
+
+            if (aRunning !== bRunning) {
+                return aRunning - bRunning
+            }
+
+            const aServed = state.lastServed.get(a.userId) ?? -1
+            const bServed = state.lastServed.get(b.userId) ?? -1
+
+            if (aServed !== bServed) {
+                return aServed - bServed
+            }
+
+            return a.order - b.order
+        })
     }
 }
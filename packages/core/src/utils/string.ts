@@ -32,6 +32,38 @@ export function getMessageContent(message: BaseMessage['content']) {
     return buffer.join('')
 }
 
+/**
+ * Split the reasoning wrapped in `<think>` tags from the content.
+ * An unclosed tag means the model is still reasoning in the stream.
+ */
+export function parseThinkContent(text: string) {
+    const trimmedText = text.trimStart()
+
+    // 流式输出时标签可能还没有完整输出
+    if (trimmedText.length > 0 && '<think>'.startsWith(trimmedText)) {
+        return { reasoningContent: '', content: '' }
+    }
+
+    const match = trimmedText.match(/^<think>([\s\S]*?)(<\/think>|$)/)
+
+    if (match == null) {
+        return { reasoningContent: '', content: text }
+    }
+
+    return {
+        reasoningContent: match[1].trim(),
+        content: trimmedText.slice(match[0].length).trimStart()
+    }
+}
+
+export function getReasoningContent(message: BaseMessage) {
+    const reasoningContent = message?.additional_kwargs?.reasoning_content
+
+    return typeof reasoningContent === 'string' && reasoningContent.length > 0
+        ? reasoningContent
+        : undefined
+}
+
 export function getNotEmptyString(...texts: (string | undefined)[]): string {
     for (const text of texts) {
         if (text && text?.length > 0) {
@@ -0,0 +1,75 @@
+import { expect } from 'chai'
+import { createTestApp, startTestApp, stopTestApp } from './utils'
+
+describe('chat in the alias room', function () {
+    this.timeout(20000)
+
+    const modelAliases = [
+        {
+            name: 'fast',
+            model: 'mock/mock-chat',
+            stop: []
+        }
+    ]
+
+    describe('without the auth system', () => {
+        const app = createTestApp({
+            chatluna: { defaultModel: 'alias/fast', modelAliases },
+            mockAdapter: { errorPattern: 'fail', maxRetries: 1 }
+        })
+        const client = app.mock.client('123')
+
+        before(() => startTestApp(app))
+        after(() => stopTestApp(app))
+
+        it('replies by the target model', async () => {
+            const result = await client.receive('chatluna.chat.text hello')
+
+            expect(result).to.deep.equal(['hello'])
+        })
+
+        it('saves the usage of the target model', async () => {
+            await client.receive('chatluna.chat.text hello again')
+
+            const records = await app.database.get('chathub_usage', {
+                userId: '123'
+            })
+
+            expect(records.length).to.be.greaterThan(0)
+            expect(records.every((record) => record.success)).to.equal(true)
+            expect(records[0].model).to.equal('mock/mock-chat')
+        })
+
+        it('saves the failed usage of the target model', async () => {
+            await client.receive('chatluna.chat.text fail')
+
+            const records = await app.database.get('chathub_usage', {
+                success: false
+            })
+
+            expect(records.map((record) => record.model)).to.deep.equal([
+                'mock/mock-chat'
+            ])
+        })
+    })
+
+    describe('with the auth system', () => {
+        const app = createTestApp({
+            chatluna: {
+                defaultModel: 'alias/fast',
+                modelAliases,
+                authSystem: true
+            }
+        })
+        const client = app.mock.client('123')
+
+        before(() => startTestApp(app))
+        after(() => stopTestApp(app))
+
+        it('resolves the auth group by the target platform', async () => {
+            const result = await client.receive('chatluna.chat.text hello')
+
+            expect(result).to.deep.equal(['hello'])
+        })
+    })
+})
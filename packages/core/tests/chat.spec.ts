@@ -0,0 +1,224 @@
+import { expect } from 'chai'
+import { App } from 'koishi'
+import { StructuredTool } from '@langchain/core/tools'
+import { z } from 'zod'
+import { ChatLunaChatModel } from 'koishi-plugin-chatluna/llm-core/platform/model'
+import { createTestApp, startTestApp, stopTestApp } from './utils'
+
+describe('chat with the mock adapter', function () {
+    this.timeout(20000)
+
+    describe('chat mode', () => {
+        const app = createTestApp()
+        const client = app.mock.client('123')
+
+        before(() => startTestApp(app))
+        after(() => stopTestApp(app))
+
+        it('replies with the mock response', async () => {
+            const result = await client.receive('chatluna.chat.text hello')
+
+            expect(result).to.deep.equal(['hello'])
+        })
+
+        it('keeps the conversation history', async () => {
+            await client.receive('chatluna.chat.text first message')
+
+            let history: string[] = []
+
+            app.on(
+                'chatluna/before-chat',
+                async (_, __, ___, chatInterface) => {
+                    const messages =
+                        await chatInterface.chatHistory.getMessages()
+                    history = messages.map(
+                        (message) => message.content as string
+                    )
+                }
+            )
+
+            await client.receive('chatluna.chat.text second message')
+
+            expect(history).to.include('first message')
+        })
+    })
+
+    describe('stream response', () => {
+        const app = createTestApp({
+            chatluna: { streamResponse: true },
+            mockAdapter: {
+                // 默认预设只会发送 <output> 标签中的内容
+                defaultResponse: '<output>{input}</output>',
+                chunkSize: 2
+            }
+        })
+        const client = app.mock.client('123')
+
+        before(() => startTestApp(app))
+        after(() => stopTestApp(app))
+
+        it('streams the tokens from the model', async () => {
+            const tokens: string[] = []
+
+            const model = await createMockModel(app)
+
+            for await (const chunk of await model.stream('hi')) {
+                tokens.push(chunk.content as string)
+            }
+
+            // 流式输出的每个块都包含已生成的全部内容
+            expect(tokens.length).to.be.greaterThan(1)
+            expect(tokens[0]).to.equal('<o')
+            expect(tokens[tokens.length - 1]).to.equal('<output>hi</output>')
+        })
+
+        it('sends the streamed reply', async () => {
+            const sent: string[] = []
+
+            // 测试用的机器人不支持编辑消息，使用分段发送
+            app.bots[0].editMessage = undefined
+
+            const dispose = app.on('before-send', (session) => {
+                sent.push(session.content)
+            })
+
+            await client.receive('chatluna.chat.text hello world')
+
+            for (let i = 0; i < 20 && sent.length < 1; i++) {
+                await new Promise((resolve) => setTimeout(resolve, 50))
+            }
+
+            dispose()
+
+            expect(sent.join('')).to.contain('hello world')
+            expect(sent.join('')).to.not.contain('output')
+        })
+    })
+
+    describe('plugin mode', () => {
+        const calls: string[] = []
+
+        const app = createTestApp({
+            chatluna: { defaultChatMode: 'plugin' },
+            mockAdapter: {
+                toolCalls: [
+                    {
+                        pattern: 'weather',
+                        tool: 'test_weather',
+                        arguments: '{"city":"Tokyo"}'
+                    }
+                ],
+                responses: [
+                    {
+                        pattern: 'weather',
+                        response: 'It is sunny.'
+                    }
+                ]
+            }
+        })
+        const client = app.mock.client('123')
+
+        before(async () => {
+            await startTestApp(app)
+
+            app.chatluna.platform.registerTool('test_weather', {
+                selector: () => true,
+                createTool: async () => new WeatherTool(calls)
+            })
+        })
+
+        after(() => stopTestApp(app))
+
+        it('calls the tool and replies with the result', async () => {
+            const result = await client.receive(
+                'chatluna.chat.text what is the weather?'
+            )
+
+            expect(calls).to.deep.equal(['Tokyo'])
+            expect(result).to.deep.equal(['It is sunny.'])
+        })
+    })
+
+    describe('prompt-based tool calling', () => {
+        const calls: string[] = []
+
+        const app = createTestApp({
+            chatluna: { defaultChatMode: 'plugin', streamResponse: true },
+            mockAdapter: {
+                functionCall: false,
+                chunkSize: 3,
+                // 第一次请求在说明文字后调用工具，拿到工具结果后回复
+                responses: [
+                    {
+                        pattern: 'tool_result',
+                        response: '<output>It is sunny.</output>'
+                    },
+                    {
+                        pattern: 'weather',
+                        response:
+                            'Let me check.\n<tool_call>\n{"name": "test_weather", "arguments": {"city": "Tokyo"}}\n</tool_call>'
+                    }
+                ]
+            }
+        })
+        const client = app.mock.client('123')
+
+        before(async () => {
+            await startTestApp(app)
+
+            app.chatluna.platform.registerTool('test_weather', {
+                selector: () => true,
+                createTool: async () => new WeatherTool(calls)
+            })
+        })
+
+        after(() => stopTestApp(app))
+
+        it('streams the reply without repeating the text', async () => {
+            const sent: string[] = []
+
+            app.bots[0].editMessage = undefined
+
+            const dispose = app.on('before-send', (session) => {
+                sent.push(session.content)
+            })
+
+            await client.receive('chatluna.chat.text what is the weather?')
+
+            for (let i = 0; i < 20 && sent.length < 1; i++) {
+                await new Promise((resolve) => setTimeout(resolve, 50))
+            }
+
+            dispose()
+
+            expect(calls).to.deep.equal(['Tokyo'])
+            expect(sent).to.deep.equal(['<p>It is sunny.</p>'])
+        })
+    })
+})
+
+async function createMockModel(app: App) {
+    const client = await app.chatluna.platform.randomClient('mock')
+
+    return client.createModel('mock-chat') as ChatLunaChatModel
+}
+
+class WeatherTool extends StructuredTool {
+    name = 'test_weather'
+
+    description = 'Get the weather of the city'
+
+    schema = z.object({
+        city: z.string()
+    })
+
+    constructor(private _calls: string[]) {
+        super()
+    }
+
+    async _call(input: { city: string }) {
+        this._calls.push(input.city)
+
+        return `The weather of ${input.city} is sunny.`
+    }
+}
@@ -0,0 +1,66 @@
+import { expect } from 'chai'
+import {
+    ClientConfig,
+    ClientConfigPool,
+    ClientConfigPoolMode
+} from 'koishi-plugin-chatluna/llm-core/platform/config'
+import { createTestApp, startTestApp, stopTestApp } from './utils'
+
+describe('client config pool', function () {
+    this.timeout(20000)
+
+    const app = createTestApp()
+
+    before(() => startTestApp(app))
+    after(() => stopTestApp(app))
+
+    function createConfig(apiKey: string): ClientConfig {
+        return {
+            apiKey,
+            platform: 'test',
+            maxRetries: 1,
+            concurrentMaxSize: 1,
+            timeout: 1000,
+            chatLimit: 1
+        }
+    }
+
+    it('switches to the next key when the quota is used up', async () => {
+        const pool = new ClientConfigPool(app, ClientConfigPoolMode.UsageAware)
+
+        const cheap = createConfig('cheap')
+        const other = createConfig('other')
+
+        await pool.addConfig(cheap, { weight: 2, quota: 2 })
+        await pool.addConfig(other, { weight: 1 })
+
+        // 客户端初始化成功后才会标记为可用
+        await pool.markConfigStatus(cheap, true)
+        await pool.markConfigStatus(other, true)
+
+        // chatLimit 为单个用户的限制，不影响 API Key 的额度
+        for (let i = 0; i < 2; i++) {
+            const config = pool.getConfig()
+
+            expect(config.value.apiKey).to.equal('cheap')
+
+            pool.acquireConfig(config.value)
+            pool.releaseConfig(config.value)
+        }
+
+        expect(pool.getConfig().value.apiKey).to.equal('other')
+    })
+
+    it('keeps the weight out of the config identity', async () => {
+        const pool = new ClientConfigPool(app, ClientConfigPoolMode.Weighted)
+        const other = new ClientConfigPool(app, ClientConfigPoolMode.Weighted)
+
+        const config = createConfig('weighted')
+
+        await pool.addConfig(config, { weight: 5 })
+        await other.addConfig(createConfig('weighted'))
+
+        expect(config).to.not.have.property('weight')
+        expect(pool.getConfigs()[0].md5()).to.equal(other.getConfigs()[0].md5())
+    })
+})
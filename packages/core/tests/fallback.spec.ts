@@ -0,0 +1,155 @@
+import { expect } from 'chai'
+import { Context } from 'koishi'
+import { StructuredTool } from '@langchain/core/tools'
+import * as mockAdapter from 'koishi-plugin-chatluna-mock-adapter'
+import { z } from 'zod'
+import { createTestApp, startTestApp, stopTestApp } from './utils'
+
+// 同一个插件只能启用一次，使用另一个插件启用第二个模拟适配器
+const chatOnlyAdapter = {
+    name: 'chatluna-mock-adapter-chat-only',
+    apply: (ctx: Context, config: mockAdapter.Config) =>
+        mockAdapter.apply(ctx, config),
+    Config: mockAdapter.Config,
+    inject: mockAdapter.inject
+}
+
+describe('fallback models', function () {
+    this.timeout(30000)
+
+    const models = ['chat-only/mock-chat', 'mock/mock-chat']
+
+    describe('chat mode', () => {
+        const calls: string[] = []
+
+        const app = createTestApp({
+            chatluna: {
+                defaultModel: 'chat-only/mock-chat',
+                defaultModelFallbacks: ['mock/mock-chat'],
+                defaultChatMode: 'plugin'
+            },
+            mockAdapter: {
+                toolCalls: [
+                    {
+                        pattern: 'weather',
+                        tool: 'test_weather',
+                        arguments: '{"city":"Tokyo"}'
+                    }
+                ],
+                responses: [{ pattern: 'weather', response: 'It is sunny.' }]
+            },
+            setup(ctx) {
+                // 不支持插件模式的模型，并且总是请求失败，未填写的配置项使用默认值
+                ctx.plugin(chatOnlyAdapter, {
+                    platform: 'chat-only',
+                    supportMode: ['chat'],
+                    errorPattern: '.*',
+                    maxRetries: 1,
+                    chunkDelay: 0
+                } as mockAdapter.Config)
+            }
+        })
+        const client = app.mock.client('123')
+
+        before(async () => {
+            await startTestApp(app, models)
+
+            app.chatluna.platform.registerTool('test_weather', {
+                selector: () => true,
+                createTool: async () => new WeatherTool(calls)
+            })
+        })
+
+        after(() => stopTestApp(app))
+
+        it('keeps the plugin mode for the fallback model', async () => {
+            const result = await client.receive(
+                'chatluna.chat.text what is the weather?'
+            )
+
+            expect(calls).to.deep.equal(['Tokyo'])
+            expect(result).to.include('It is sunny.')
+        })
+
+        it('saves the usage of every model', async () => {
+            const records = await app.database.get('chathub_usage', {})
+
+            expect(
+                records.map((record) => [record.model, record.success])
+            ).to.deep.equal([
+                ['chat-only/mock-chat', false],
+                ['mock/mock-chat', true]
+            ])
+        })
+    })
+
+    describe('queue', () => {
+        const app = createTestApp({
+            chatluna: {
+                defaultModel: 'chat-only/mock-chat',
+                defaultModelFallbacks: ['mock/mock-chat']
+            },
+            mockAdapter: {
+                chatConcurrentMaxSize: 1,
+                latency: 1500
+            },
+            setup(ctx) {
+                ctx.plugin(chatOnlyAdapter, {
+                    platform: 'chat-only',
+                    errorPattern: '.*',
+                    maxRetries: 1,
+                    chunkDelay: 0
+                } as mockAdapter.Config)
+            }
+        })
+
+        before(() => startTestApp(app, models))
+        after(() => stopTestApp(app))
+
+        it('waits for the concurrency slot of the fallback platform', async () => {
+            const requests = ['123', '456'].map((userId) =>
+                app.mock.client(userId).receive('chatluna.chat.text hello')
+            )
+
+            let positions: number[] = []
+
+            // 主模型请求失败后才会回退，失败的请求会等待一段时间再重试
+            for (let i = 0; i < 500 && positions.length < 2; i++) {
+                await new Promise((resolve) => setTimeout(resolve, 20))
+
+                positions = app.chatluna
+                    .getQueuedRequests()
+                    .filter((request) => request.platform === 'mock')
+                    .map((request) => request.position)
+            }
+
+            expect(positions.sort()).to.deep.equal([0, 1])
+
+            const results = await Promise.all(requests)
+
+            for (const result of results) {
+                expect(result).to.include('hello')
+            }
+        })
+    })
+})
+
+class WeatherTool extends StructuredTool {
+    name = 'test_weather'
+
+    description = 'Get the weather of the city'
+
+    schema = z.object({
+        city: z.string()
+    })
+
+    constructor(private _calls: string[]) {
+        super()
+    }
+
+    async _call(input: { city: string }) {
+        this._calls.push(input.city)
+
+        return `The weather of ${input.city} is sunny.`
+    }
+}
@@ -0,0 +1,155 @@
+import { expect } from 'chai'
+import http from 'http'
+import { HTTP } from 'koishi'
+import { AddressInfo } from 'net'
+import { MemoryVectorStore } from 'koishi-plugin-chatluna/llm-core/vectorstores'
+import { createTestApp, startTestApp, stopTestApp } from './utils'
+
+describe('file input', function () {
+    this.timeout(20000)
+
+    const app = createTestApp({
+        chatluna: { fileInput: true, fileInputMaxSize: 1 },
+        setup: (ctx) => ctx.plugin(HTTP)
+    })
+    const client = app.mock.client('123')
+
+    // 每个请求是否在发送完整个文件前被中止
+    const aborted: Record<string, Promise<boolean>> = {}
+
+    // 分块慢速发送文件，/length 路径会带上 Content-Length
+    const server = http.createServer(async (req, res) => {
+        const chunks = req.url === '/small.txt' ? 1 : 20
+        const chunk = req.url === '/small.txt' ? 'hello' : 'a'.repeat(512)
+
+        if (req.url === '/length/large.txt') {
+            res.setHeader('Content-Length', chunk.length * chunks)
+        }
+
+        aborted[req.url] = new Promise((resolve) =>
+            res.on('close', () => resolve(!res.writableFinished))
+        )
+
+        for (let i = 0; i < chunks && !res.destroyed; i++) {
+            res.write(chunk)
+            await new Promise((resolve) => setTimeout(resolve, 20))
+        }
+
+        res.end()
+    })
+
+    let content: string
+
+    before(async () => {
+        await new Promise<void>((resolve) => server.listen(0, resolve))
+        await startTestApp(app)
+
+        app.on('chatluna/before-chat', async (_, message) => {
+            content = message.content as string
+        })
+    })
+
+    after(async () => {
+        await stopTestApp(app)
+        server.close()
+    })
+
+    function sendFile(path: string) {
+        const { port } = server.address() as AddressInfo
+
+        return client.receive(
+            `read <file src="http://127.0.0.1:${port}${path}"/>`
+        )
+    }
+
+    it('reads the small file', async () => {
+        await sendFile('/small.txt')
+
+        expect(content).to.equal('read [file: small.txt]\nhello\n[/file]')
+    })
+
+    it('stops downloading the large file without the content length', async () => {
+        await sendFile('/large.txt')
+
+        expect(content).to.equal('read ')
+        expect(await aborted['/large.txt']).to.equal(true)
+    })
+
+    it('rejects the large file by the content length', async () => {
+        await sendFile('/length/large.txt')
+
+        expect(content).to.equal('read ')
+        expect(await aborted['/length/large.txt']).to.equal(true)
+    })
+
+    it('skips the unsupported file before downloading', async () => {
+        await sendFile('/image.png')
+
+        expect(content).to.equal('read ')
+        expect(aborted['/image.png']).to.equal(undefined)
+    })
+})
+
+describe('file input retrieval', function () {
+    this.timeout(20000)
+
+    const app = createTestApp({
+        chatluna: {
+            fileInput: true,
+            fileInputInlineLength: 500,
+            // 开启长期记忆后才会加载嵌入模型
+            longMemory: true,
+            defaultEmbeddings: 'mock/mock-embeddings',
+            defaultVectorStore: 'memory'
+        },
+        setup: (ctx) => ctx.plugin(HTTP)
+    })
+    const client = app.mock.client('123')
+
+    // 超过内联长度的文件会加入到对话的向量数据库中
+    const server = http.createServer((req, res) => {
+        res.end('the secret code is 42. '.repeat(50))
+    })
+
+    let knowledge: unknown[]
+    let disposeVectorStore: () => void
+
+    before(async () => {
+        await new Promise<void>((resolve) => server.listen(0, resolve))
+        await startTestApp(app)
+
+        disposeVectorStore = app.chatluna.platform.registerVectorStore(
+            'memory',
+            async (params) => new MemoryVectorStore(params.embeddings)
+        )
+
+        app.on('chatluna/after-chat', async (_, __, ___, promptVariables) => {
+            knowledge = promptVariables['knowledge'] ?? []
+        })
+    })
+
+    after(async () => {
+        disposeVectorStore()
+        await stopTestApp(app)
+        server.close()
+    })
+
+    it('retrieves the file in the later turns', async () => {
+        const { port } = server.address() as AddressInfo
+
+        await client.receive(
+            `read <file src="http://127.0.0.1:${port}/secret.txt"/>`
+        )
+        expect(knowledge).to.not.be.empty
+
+        await client.receive('what is the secret code?')
+        expect(knowledge).to.not.be.empty
+    })
+
+    it('removes the file after clearing the room', async () => {
+        await client.receive('chatluna.room.clear')
+        await client.receive('what is the secret code?')
+
+        expect(knowledge).to.be.empty
+    })
+})
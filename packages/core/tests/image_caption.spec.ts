@@ -0,0 +1,86 @@
+import { expect } from 'chai'
+import * as mockAdapter from 'koishi-plugin-chatluna-mock-adapter'
+import { createTestApp, startTestApp, stopTestApp } from './utils'
+
+describe('image caption', function () {
+    this.timeout(20000)
+
+    // 支持图片输入的模拟适配器，用于生成图片描述
+    const vision = {
+        name: 'chatluna-vision-adapter',
+        apply: (ctx, config) => mockAdapter.apply(ctx, config),
+        Config: mockAdapter.Config,
+        inject: mockAdapter.inject
+    }
+
+    const app = createTestApp({
+        chatluna: { imageCaptionModel: 'vision/mock-chat' },
+        setup: (ctx) =>
+            ctx.plugin(vision, {
+                platform: 'vision',
+                imageInput: true,
+                chunkDelay: 0,
+                responses: [
+                    {
+                        pattern: '^Describe this image',
+                        response: 'a red square'
+                    }
+                ]
+            })
+    })
+    const client = app.mock.client('123')
+
+    let content: string
+
+    before(async () => {
+        await startTestApp(app, ['mock/mock-chat', 'vision/mock-chat'])
+
+        app.on('chatluna/before-chat', async (_, message) => {
+            content = message.content as string
+        })
+    })
+
+    after(() => stopTestApp(app))
+
+    it('captions the image for the model without image input', async () => {
+        await client.receive('look <img src="data:image/png;base64,AAAA"/>')
+
+        expect(content).to.equal('look \n[image: a red square]')
+    })
+
+    it('sends the image to the model with image input', async () => {
+        // 关闭自动更新，否则模版克隆房间会使用默认模型
+        await app.database.set(
+            'chathub_room',
+            {},
+            { model: 'vision/mock-chat', autoUpdate: false }
+        )
+
+        const [room] = await app.database.get('chathub_room', {})
+        await app.chatluna.clearCache(room)
+
+        await client.receive('look <img src="data:image/png;base64,BBBB"/>')
+
+        expect(content).to.equal('look ')
+    })
+})
+
+describe('image input without the caption model', function () {
+    this.timeout(20000)
+
+    const app = createTestApp()
+    const client = app.mock.client('123')
+
+    before(() => startTestApp(app))
+    after(() => stopTestApp(app))
+
+    it('tells the user the model does not support image input', async () => {
+        const result = await client.receive(
+            'look <img src="data:image/png;base64,AAAA"/>'
+        )
+
+        expect(result).to.deep.equal([
+            '模型 mock/mock-chat 不支持图片输入。请切换到支持图片输入的模型，或在配置中设置图片描述模型（imageCaptionModel）。'
+        ])
+    })
+})
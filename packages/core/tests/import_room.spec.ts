@@ -0,0 +1,147 @@
+import { expect } from 'chai'
+import { HTTP } from 'koishi'
+import { ExportedConversation } from 'koishi-plugin-chatluna/types'
+import { createTestApp, startTestApp, stopTestApp } from './utils'
+
+describe('import room', function () {
+    this.timeout(20000)
+
+    const app = createTestApp({ setup: (ctx) => ctx.plugin(HTTP) })
+    const client = app.mock.client('123')
+
+    before(() => startTestApp(app))
+    after(() => stopTestApp(app))
+
+    // 先发送导入命令，再在提示后发送文件内容
+    async function importRoom(content: unknown) {
+        const result = client.receive('chatluna.room.import')
+
+        await new Promise((resolve) => setTimeout(resolve, 100))
+        await client.receive(
+            typeof content === 'string' ? content : JSON.stringify(content)
+        )
+
+        return (await result).slice(1)
+    }
+
+    function createConversation(): ExportedConversation {
+        return {
+            format: 'chatluna-conversation',
+            version: 1,
+            exportedAt: new Date().toISOString(),
+            room: {
+                roomName: 'imported',
+                preset: 'chatgpt',
+                model: 'mock/mock-chat',
+                chatMode: 'chat'
+            },
+            conversation: {},
+            messages: [
+                { id: 'a', role: 'human', content: 'hello' },
+                { id: 'b', role: 'ai', content: 'hi', parent: 'a' }
+            ]
+        }
+    }
+
+    it('imports the conversation', async () => {
+        const [result] = await importRoom(createConversation())
+
+        expect(result).to.contain('imported')
+
+        const [room] = await app.database.get('chathub_room', {
+            roomName: 'imported'
+        })
+        const messages = await app.database.get('chathub_message', {
+            conversation: room.conversationId
+        })
+
+        expect(messages.length).to.equal(2)
+    })
+
+    it('rejects the invalid json', async () => {
+        const result = await importRoom('{"format":')
+
+        expect(result).to.deep.equal(['无法识别该聊天记录文件。'])
+    })
+
+    it('rejects the conversation without the room', async () => {
+        const conversation = createConversation()
+        delete conversation.room
+
+        const result = await importRoom(conversation)
+
+        expect(result).to.deep.equal(['无法识别该聊天记录文件。'])
+    })
+
+    it('rejects the broken parent chain', async () => {
+        const conversation = createConversation()
+        conversation.messages[1].parent = 'c'
+
+        const result = await importRoom(conversation)
+
+        expect(result).to.deep.equal(['无法识别该聊天记录文件。'])
+    })
+
+    it('rejects the message without the content', async () => {
+        const conversation = createConversation()
+        delete conversation.messages[0].content
+
+        const result = await importRoom(conversation)
+
+        expect(result).to.deep.equal(['无法识别该聊天记录文件。'])
+    })
+
+    it('rejects the unavailable model', async () => {
+        const conversation = createConversation()
+        conversation.room.model = 'mock/unknown'
+
+        const result = await importRoom(conversation)
+
+        expect(result).to.deep.equal([
+            '找不到文件中的模型：mock/unknown，无法导入。'
+        ])
+    })
+
+    it('rejects the unavailable preset', async () => {
+        const conversation = createConversation()
+        conversation.room.preset = 'unknown'
+
+        const result = await importRoom(conversation)
+
+        expect(result).to.deep.equal([
+            '找不到文件中的预设：unknown，无法导入。'
+        ])
+    })
+
+    it('rejects the unavailable fallback model', async () => {
+        const conversation = createConversation()
+        conversation.room.fallbackModels = ['mock/unknown']
+
+        const result = await importRoom(conversation)
+
+        expect(result).to.deep.equal([
+            '找不到文件中的模型：mock/unknown，无法导入。'
+        ])
+    })
+
+    it('rejects the invalid model params', async () => {
+        const conversation = createConversation()
+        conversation.room.modelParams = { temperature: 5 }
+
+        const result = await importRoom(conversation)
+
+        expect(result).to.deep.equal([
+            '文件中模型参数 temperature 的值 5 超出了允许的范围，无法导入。'
+        ])
+    })
+
+    it('replies when the file cannot be downloaded', async () => {
+        const result = await client.receive(
+            'chatluna.room.import <file src="http://chatluna.invalid/room.json"/>'
+        )
+
+        expect(result).to.deep.equal([
+            '无法下载聊天记录文件，请检查文件链接或稍后重试。'
+        ])
+    })
+})
@@ -0,0 +1,156 @@
+import { expect } from 'chai'
+import { App, Universal } from 'koishi'
+import { createTestApp, startTestApp, stopTestApp } from './utils'
+
+describe('regenerate the reply', function () {
+    this.timeout(30000)
+
+    const app = createTestApp({
+        // 包含 fail 的输入总是请求失败
+        mockAdapter: { errorPattern: 'fail', maxRetries: 1 }
+    })
+    const client = app.mock.client('123')
+
+    before(() => startTestApp(app))
+    after(() => stopTestApp(app))
+
+    it('regenerates the last reply', async () => {
+        await client.receive('chatluna.chat.text hello')
+
+        const [result] = await client.receive('chatluna.chat.regenerate')
+
+        expect(result).to.equal('hello')
+        expect(await getHistory(app)).to.deep.equal(['hello', 'hello'])
+    })
+
+    it('keeps the last turn when the generation fails', async () => {
+        // 重新生成时使用数据库中用户的原始输入，改成会请求失败的内容
+        await app.database.set(
+            'chathub_message',
+            { role: 'human' },
+            {
+                text: JSON.stringify('fail'),
+                additional_kwargs: JSON.stringify({ rawContent: 'fail' })
+            }
+        )
+
+        await client.receive('chatluna.chat.regenerate')
+
+        expect(await getHistory(app)).to.deep.equal(['fail', 'hello'])
+
+        // 之后的对话仍然带有原来的回复
+        await client.receive('chatluna.chat.text hello again')
+
+        expect(await getHistory(app)).to.deep.equal([
+            'fail',
+            'hello',
+            'hello again',
+            'hello again'
+        ])
+    })
+})
+
+describe('regenerate by the quote or the reaction', function () {
+    this.timeout(30000)
+
+    const app = createTestApp({ chatluna: { regenerateOnReaction: true } })
+    const client = app.mock.client('123')
+
+    let content: string
+
+    before(async () => {
+        await startTestApp(app)
+
+        // 模拟平台不返回消息 id，为每条发送的消息生成 id
+        const bot = app.bots[0]
+        const sendMessage = bot.sendMessage.bind(bot)
+        let count = 0
+
+        bot.sendMessage = async (...args) => {
+            await sendMessage(...args)
+            return ['reply-' + ++count]
+        }
+
+        app.on('chatluna/before-chat', async (_, message) => {
+            content = message.content as string
+        })
+    })
+
+    after(() => stopTestApp(app))
+
+    it('regenerates the latest reply by quoting it', async () => {
+        await client.receive('hello')
+        await client.receive('<quote id="reply-1">hello</quote>重新生成')
+
+        // 使用原始输入，不带上引用的消息
+        expect(content).to.equal('hello')
+        expect(await getHistory(app)).to.deep.equal(['hello', 'hello'])
+        expect(await getAlternativeCount(app)).to.equal(2)
+    })
+
+    it('chats normally when quoting an earlier reply', async () => {
+        await client.receive('<quote id="reply-1">hello</quote>重新生成')
+
+        expect(await getHistory(app)).to.have.length(4)
+        expect(await getAlternativeCount(app)).to.equal(undefined)
+    })
+
+    it('regenerates the latest reply by the reaction', async () => {
+        // 上一次普通对话的回复
+        await addReaction('reply-4')
+
+        expect(await getHistory(app)).to.have.length(4)
+        expect(await getAlternativeCount(app)).to.equal(2)
+    })
+
+    it('ignores the reaction on other messages', async () => {
+        await addReaction('reply-1')
+        await addReaction('unknown')
+
+        expect(await getHistory(app)).to.have.length(4)
+        expect(await getAlternativeCount(app)).to.equal(2)
+    })
+
+    async function addReaction(messageId: string) {
+        const session = app.mock.session({
+            type: 'reaction-added',
+            selfId: app.bots[0].selfId,
+            user: { id: '123' },
+            channel: { id: 'private:123', type: Universal.Channel.Type.DIRECT },
+            message: { id: messageId }
+        })
+
+        session['client'] = client
+
+        await app.parallel(session, 'reaction-added', session)
+    }
+})
+
+async function getHistory(app: App) {
+    const [conversation] = await app.database.get('chathub_conversation', {})
+
+    const messages = await app.database.get('chathub_message', {
+        conversation: conversation.id
+    })
+
+    const result: string[] = []
+    let id = conversation.latestId
+
+    while (id != null) {
+        const message = messages.find((message) => message.id === id)
+        result.unshift(JSON.parse(message.text as string))
+        id = message.parent
+    }
+
+    return result
+}
+
+async function getAlternativeCount(app: App) {
+    const [conversation] = await app.database.get('chathub_conversation', {})
+
+    const [message] = await app.database.get('chathub_message', {
+        id: conversation.latestId
+    })
+
+    return JSON.parse(message.additional_kwargs ?? '{}').alternatives?.length
+}
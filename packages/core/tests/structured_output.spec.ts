@@ -0,0 +1,76 @@
+import { expect } from 'chai'
+import { z } from 'zod'
+import {
+    formatResponseFormat,
+    parseStructuredOutput,
+    validateJSONSchema
+} from 'koishi-plugin-chatluna/llm-core/utils/structured_output'
+
+describe('structured output', function () {
+    // 递归的 schema，子节点通过 $ref 引用 definitions 中的定义
+    const treeSchema = {
+        $ref: '#/definitions/node',
+        definitions: {
+            node: {
+                type: 'object',
+                properties: {
+                    name: { type: 'string' },
+                    children: {
+                        type: 'array',
+                        items: { $ref: '#/definitions/node' }
+                    }
+                },
+                required: ['name']
+            }
+        }
+    }
+
+    it('validates the local references', () => {
+        expect(
+            validateJSONSchema(
+                { name: 'root', children: [{ name: 'leaf' }] },
+                treeSchema
+            )
+        ).to.deep.equal([])
+
+        expect(
+            validateJSONSchema(
+                { name: 'root', children: [{ name: 1 }] },
+                treeSchema
+            )
+        ).to.deep.equal(['$.children[0].name: must be string'])
+    })
+
+    it('reports the unresolved references', () => {
+        expect(
+            validateJSONSchema('value', { $ref: '#/definitions/missing' })
+        ).to.deep.equal([
+            '$: cannot resolve the reference #/definitions/missing'
+        ])
+    })
+
+    it('converts the zod schema without references', () => {
+        const item = z.object({ name: z.string() })
+        const format = formatResponseFormat({
+            schema: z.object({ first: item, second: item })
+        })
+
+        expect(JSON.stringify(format.schema)).to.not.contain('$ref')
+    })
+
+    it('validates the zod schema with safeParse', () => {
+        const format = {
+            schema: z.object({
+                name: z.string().transform((name) => name.toUpperCase())
+            })
+        }
+
+        expect(
+            parseStructuredOutput('{"name": "chatluna"}', format)
+        ).to.deep.equal({
+            success: true,
+            value: { name: 'CHATLUNA' },
+            text: '{"name": "chatluna"}'
+        })
+    })
+})
@@ -0,0 +1,73 @@
+import { expect } from 'chai'
+import { ChatHubChatChain } from 'koishi-plugin-chatluna/llm-core/chain/chat_chain'
+import { ConversationSummaryMemory } from 'koishi-plugin-chatluna/llm-core/memory/langchain'
+import { createTestApp, startTestApp, stopTestApp } from './utils'
+
+describe('summary history', function () {
+    this.timeout(20000)
+
+    // 模拟适配器会原样返回总结的提示词，总结中包含聊天记录的内容
+    const app = createTestApp({
+        chatluna: { historyMode: 'summary' },
+        mockAdapter: {
+            responses: [{ pattern: '^(apple|banana)$', response: 'fruit' }]
+        }
+    })
+    const client = app.mock.client('123')
+
+    let summary: string
+
+    before(async () => {
+        await startTestApp(app)
+
+        app.on('chatluna/before-chat', async (_, __, ___, ____, chain) => {
+            const memory = (chain as ChatHubChatChain).historyMemory
+
+            summary = (memory as ConversationSummaryMemory).buffer
+        })
+    })
+
+    after(() => stopTestApp(app))
+
+    async function getMessageId(text: string) {
+        const [message] = await app.database.get('chathub_message', {
+            role: 'human',
+            text: JSON.stringify(text)
+        })
+
+        return message.id
+    }
+
+    it('rebuilds the summary after editing a message', async () => {
+        await client.receive('chatluna.chat.text apple')
+        await client.receive('chatluna.chat.text second')
+
+        await client.receive(
+            `chatluna.chat.edit ${await getMessageId('apple')} banana`
+        )
+        await client.receive('chatluna.chat.text third')
+
+        expect(summary).to.contain('banana')
+        expect(summary).to.not.contain('apple')
+    })
+
+    it('rebuilds the summary after deleting a message', async () => {
+        await client.receive(
+            `chatluna.chat.delete ${await getMessageId('banana')}`
+        )
+        await client.receive('chatluna.chat.text fourth')
+
+        expect(summary).to.contain('second')
+        expect(summary).to.not.contain('banana')
+    })
+
+    it('only summarizes the last turn when the history is not edited', async () => {
+        const [room] = await app.database.get('chathub_room', {})
+        await app.chatluna.clearCache(room)
+
+        await client.receive('chatluna.chat.text fifth')
+
+        expect(summary).to.contain('fourth')
+        expect(summary).to.not.contain('second')
+    })
+})
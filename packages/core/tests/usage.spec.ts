@@ -0,0 +1,59 @@
+import { expect } from 'chai'
+import { createTestApp, startTestApp, stopTestApp } from './utils'
+
+describe('query usage', function () {
+    this.timeout(20000)
+
+    const app = createTestApp()
+    const client = app.mock.client('admin')
+
+    before(async () => {
+        await startTestApp(app)
+        await app.mock.initUser('admin', 3)
+
+        const createdAt = new Date()
+
+        const records = [
+            ['123', 0.5, true],
+            ['123', 0.25, false],
+            ['456', 2, true]
+        ] as const
+
+        for (const [userId, cost, success] of records) {
+            await app.database.create('chathub_usage', {
+                userId,
+                roomId: 1,
+                model: 'mock/mock-chat',
+                promptTokens: 100,
+                completionTokens: 50,
+                cost,
+                latency: 300,
+                success,
+                createdAt
+            })
+        }
+    })
+
+    after(() => stopTestApp(app))
+
+    it('summarizes the usage by user', async () => {
+        const [result] = await client.receive('chatluna.usage user')
+
+        expect(result).to.contain('共 3 次请求，总费用 2.75')
+        expect(result).to.contain('请求次数：2（失败 1 次）')
+
+        // 按费用倒序
+        expect(result.indexOf('456')).to.be.lessThan(result.indexOf('123'))
+    })
+
+    it('summarizes the usage by day', async () => {
+        const date = new Date()
+        const month = (date.getMonth() + 1).toString().padStart(2, '0')
+        const day = date.getDate().toString().padStart(2, '0')
+
+        const [result] = await client.receive('chatluna.usage day')
+
+        expect(result).to.contain(`${date.getFullYear()}-${month}-${day}`)
+        expect(result).to.contain('共 3 次请求')
+    })
+})
@@ -0,0 +1,76 @@
+import { App, Context, Plugin } from 'koishi'
+import mock from '@koishijs/plugin-mock'
+import memory from '@koishijs/plugin-database-memory'
+import * as chatluna from 'koishi-plugin-chatluna'
+import * as mockAdapter from 'koishi-plugin-chatluna-mock-adapter'
+import { ModelType } from 'koishi-plugin-chatluna/llm-core/platform/types'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+// chatluna 的 inject 使用 koishi 加载器的 required/optional 格式，与 cordis 的类型不兼容
+export const chatlunaPlugin = chatluna as unknown as Plugin.Object<
+    Context,
+    chatluna.Config
+>
+
+export interface TestAppOptions {
+    chatluna?: Partial<chatluna.Config>
+    mockAdapter?: Partial<mockAdapter.Config>
+    setup?: (ctx: Context) => void
+}
+
+/**
+ * Create a koishi app with the mock bot, the memory database,
+ * chatluna and the mock adapter. The data files are written to a temp directory.
+ */
+export function createTestApp(options: TestAppOptions = {}) {
+    const app = new App()
+
+    app.baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chatluna-test-'))
+
+    app.plugin(mock)
+    app.plugin(memory)
+
+    // 未填写的配置项由插件的 Schema 补全默认值
+    app.plugin(chatlunaPlugin, {
+        defaultModel: 'mock/mock-chat',
+        autoCreateRoomFromUser: false,
+        ...options.chatluna
+    } as chatluna.Config)
+
+    app.plugin(mockAdapter, {
+        chunkDelay: 0,
+        ...options.mockAdapter
+    } as mockAdapter.Config)
+
+    options.setup?.(app)
+
+    return app
+}
+
+export async function startTestApp(
+    app: App,
+    models: string[] = ['mock/mock-chat']
+) {
+    await app.start()
+
+    // 等待适配器加载模型
+    for (let i = 0; i < 100; i++) {
+        const loaded = app.chatluna?.platform?.getAllModels(ModelType.llm)
+
+        if (models.every((model) => loaded?.includes(model))) {
+            break
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, 50))
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 100))
+}
+
+export async function stopTestApp(app: App) {
+    await app.stop()
+
+    fs.rmSync(app.baseDir, { recursive: true, force: true })
+}
@@ -72,6 +72,13 @@ export class GeminiClient extends PlatformModelAndEmbeddingsClient {
                             ? ModelType.embeddings
                             : ModelType.llm,
                         functionCall: !model.includes('vision'),
+                        structuredOutput:
+                            model.includes('gemini-1.5') ||
+                            model.includes('gemini-2'),
+                        imageInput:
+                            model.includes('vision') ||
+                            model.includes('gemini-1.5') ||
+                            model.includes('gemini-2'),
                         supportMode: ['all']
                     }
                 })
@@ -8,6 +8,7 @@ import {
     ModelRequestParams
 } from 'koishi-plugin-chatluna/llm-core/platform/api'
 import { ClientConfig } from 'koishi-plugin-chatluna/llm-core/platform/config'
+import { TokenUsage } from 'koishi-plugin-chatluna/llm-core/platform/types'
 import {
     ChatLunaError,
     ChatLunaErrorCode
@@ -25,6 +26,7 @@ import {
     CreateEmbeddingResponse
 } from './types'
 import {
+    formatResponseSchema,
     formatToolsToGeminiAITools,
     langchainMessageToGeminiMessage,
     partAsType
@@ -77,7 +79,17 @@ export class GeminiRequester
                         maxOutputTokens: params.model.includes('vision')
                             ? undefined
                             : params.maxTokens,
-                        topP: params.topP
+                        topP: params.topP,
+                        responseMimeType:
+                            params.responseFormat != null
+                                ? 'application/json'
+                                : undefined,
+                        responseSchema:
+                            params.responseFormat != null
+                                ? formatResponseSchema(
+                                      params.responseFormat.schema
+                                  )
+                                : undefined
                     },
                     tools:
                         !params.model.includes('vision') && params.tools != null
@@ -108,9 +120,21 @@ export class GeminiRequester
                 await writable.close()
             }
 
+            let tokenUsage: TokenUsage
+
             jsonParser.onValue = async ({ value }) => {
                 const transformValue = value as unknown as ChatResponse
 
+                if (transformValue.usageMetadata) {
+                    const usage = transformValue.usageMetadata
+
+                    tokenUsage = {
+                        promptTokens: usage.promptTokenCount ?? 0,
+                        completionTokens: usage.candidatesTokenCount ?? 0,
+                        totalTokens: usage.totalTokenCount ?? 0
+                    }
+                }
+
                 if (transformValue.candidates && transformValue.candidates[0]) {
                     const parts = transformValue.candidates[0]?.content?.parts
 
@@ -146,6 +170,8 @@ export class GeminiRequester
                 arguments: ''
             }
 
+            let lastChunk: ChatGenerationChunk
+
             for await (const chunk of iterable) {
                 const messagePart = partAsType<ChatMessagePart>(chunk)
                 const chatFunctionCallingPart =
@@ -216,7 +242,12 @@ export class GeminiRequester
                         text: messageChunk.content
                     })
 
-                    yield generationChunk
+                    // 延迟一个 chunk 输出，以便在最后一个 chunk 上附加用量
+                    if (lastChunk != null) {
+                        yield lastChunk
+                    }
+
+                    lastChunk = generationChunk
                     content = messageChunk.content
                 } catch (e) {
                     if (errorCount > 5) {
@@ -231,6 +262,14 @@ export class GeminiRequester
                     }
                 }
             }
+
+            if (lastChunk != null) {
+                lastChunk.generationInfo = tokenUsage
+                    ? { tokenUsage }
+                    : undefined
+
+                yield lastChunk
+            }
         } catch (e) {
             if (e instanceof ChatLunaError) {
                 throw e
@@ -14,8 +14,8 @@ export type ChatMessagePart = {
 }
 
 export type ChatUploadDataPart = {
-    inline_data: {
-        mime_type: string
+    inlineData: {
+        mimeType: string
         data?: string
     }
 }
@@ -52,6 +52,11 @@ export interface ChatResponse {
             probability: string
         }[]
     }
+    usageMetadata?: {
+        promptTokenCount: number
+        candidatesTokenCount: number
+        totalTokenCount: number
+    }
 }
 
 export interface ChatCompletionFunction {
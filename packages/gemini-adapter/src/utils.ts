@@ -120,18 +120,10 @@ export async function langchainMessageToGeminiMessage(
                 ]
             }
 
-            if (
-                (model.includes('vision') || model.includes('gemini-1.5')) &&
-                images != null
-            ) {
+            // 模型是否支持图片由 ModelInfo.imageInput 决定，不支持时图片已被移除
+            if (images != null) {
                 for (const image of images) {
-                    result.parts.push({
-                        inline_data: {
-                            // base64 image match type
-                            data: image.replace(/^data:image\/\w+;base64,/, ''),
-                            mime_type: 'image/jpeg'
-                        }
-                    })
+                    result.parts.push(formatImagePart(image))
                 }
             }
 
@@ -198,18 +190,14 @@ export async function langchainMessageToGeminiMessage(
         const lastParts = last.parts
 
         let lastImagesParts = lastParts.filter(
-            (part) =>
-                (part as ChatUploadDataPart).inline_data?.mime_type ===
-                'image/jpeg'
+            (part) => (part as ChatUploadDataPart).inlineData != null
         ) as ChatUploadDataPart[]
 
         if (lastImagesParts.length < 1) {
             for (let i = result.length - 1; i >= 0; i--) {
                 const message = result[i]
                 const images = message.parts.filter(
-                    (part) =>
-                        (part as ChatUploadDataPart).inline_data?.mime_type ===
-                        'image/jpeg'
+                    (part) => (part as ChatUploadDataPart).inlineData != null
                 ) as ChatUploadDataPart[]
 
                 if (images.length > 0) {
@@ -245,6 +233,18 @@ export async function langchainMessageToGeminiMessage(
     return result
 }
 
+export function formatImagePart(image: string): ChatUploadDataPart {
+    // data:image/png;base64,xxx
+    const mimeType = image.match(/^data:(image\/\w+);base64,/)?.[1]
+
+    return {
+        inlineData: {
+            data: image.replace(/^data:image\/\w+;base64,/, ''),
+            mimeType: mimeType ?? 'image/jpeg'
+        }
+    }
+}
+
 export function partAsType<T extends ChatPart>(part: ChatPart): T {
     return part as T
 }
@@ -275,6 +275,63 @@ export function formatToolToGeminiAITool(
     }
 }
 
+// Gemini 的 responseSchema 只支持 OpenAPI schema 的一个子集
+const supportedSchemaKeys = [
+    'type',
+    'format',
+    'description',
+    'nullable',
+    'enum',
+    'properties',
+    'required',
+    'items',
+    'minItems',
+    'maxItems'
+]
+
+export function formatResponseSchema(schema: Record<string, any>) {
+    if (schema == null || typeof schema !== 'object') {
+        return schema
+    }
+
+    const result: Record<string, any> = {}
+
+    for (const key of supportedSchemaKeys) {
+        if (schema[key] != null) {
+            result[key] = schema[key]
+        }
+    }
+
+    if (Array.isArray(result.type)) {
+        const types = result.type.filter((type: string) => type !== 'null')
+
+        if (types.length < result.type.length) {
+            result.nullable = true
+        }
+
+        result.type = types[0]
+    }
+
+    if (typeof result.type === 'string') {
+        result.type = result.type.toUpperCase()
+    }
+
+    if (result.properties != null) {
+        result.properties = Object.fromEntries(
+            Object.entries(result.properties).map(([key, value]) => [
+                key,
+                formatResponseSchema(value as Record<string, any>)
+            ])
+        )
+    }
+
+    if (result.items != null) {
+        result.items = formatResponseSchema(result.items)
+    }
+
+    return result
+}
+
 export function messageTypeToGeminiRole(
     type: MessageType
 ): ChatCompletionResponseMessageRoleEnum {
@@ -48,7 +48,7 @@ export class GPTFreeClient extends PlatformModelClient<ClientConfig> {
                 return {
                     name: model,
                     type: ModelType.llm,
-                    supportMode: ['chat']
+                    supportMode: ['all']
                 }
             })
         } catch (e) {
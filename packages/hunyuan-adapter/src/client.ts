@@ -61,6 +61,7 @@ export class HunyuanClient extends PlatformModelAndEmbeddingsClient<ClientConfig
                     : ModelType.llm,
                 maxTokens: token,
                 functionCall: model.includes('functioncall'),
+                imageInput: model.includes('vision'),
                 supportMode: ['all']
             } as ModelInfo
         })
@@ -1,4 +1,4 @@
-import { BaseMessageChunk } from '@langchain/core/messages'
+import { AIMessageChunk, BaseMessageChunk } from '@langchain/core/messages'
 import { ChatGenerationChunk } from '@langchain/core/outputs'
 import {
     EmbeddingsRequester,
@@ -46,10 +46,7 @@ export class HunyuanRequester
                 'chat/completions',
                 {
                     model: params.model,
-                    messages: langchainMessageToHunyuanMessage(
-                        params.input,
-                        params.model
-                    ),
+                    messages: langchainMessageToHunyuanMessage(params.input),
                     tools:
                         params.tools != null && !params.model.includes('vision')
                             ? formatToolsToHunyuanTools(params.tools)
@@ -120,9 +117,33 @@ export class HunyuanRequester
                     )
                 }
 
-                const choice = data.choices?.[0]
+                const generationInfo =
+                    data.usage != null
+                        ? {
+                              tokenUsage: {
+                                  promptTokens: data.usage.prompt_tokens,
+                                  completionTokens:
+                                      data.usage.completion_tokens,
+                                  totalTokens: data.usage.total_tokens
+                              }
+                          }
+                        : undefined
 
+                const choice = data.choices?.[0]
                 if (!choice) {
+                    // 最后一个 chunk 可能只包含用量
+                    if (generationInfo != null) {
+                        const content = findTools
+                            ? ''
+                            : (lastMessageChunk?.content ?? '')
+
+                        yield new ChatGenerationChunk({
+                            message: new AIMessageChunk({ content }),
+                            text: content as string,
+                            generationInfo
+                        })
+                    }
+
                     continue
                 }
 
@@ -138,7 +159,8 @@ export class HunyuanRequester
 
                 const generationChunk = new ChatGenerationChunk({
                     message: messageChunk,
-                    text: messageChunk.content as string
+                    text: messageChunk.content as string,
+                    generationInfo
                 })
 
                 yield generationChunk
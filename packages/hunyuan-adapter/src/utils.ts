@@ -42,8 +42,7 @@ export function formatToolToHunyuanTool(
 }
 
 export function langchainMessageToHunyuanMessage(
-    messages: BaseMessage[],
-    model: string
+    messages: BaseMessage[]
 ): ChatCompletionResponseMessage[] {
     const mappedMessage: ChatCompletionResponseMessage[] = []
 
@@ -84,7 +83,8 @@ export function langchainMessageToHunyuanMessage(
 
         const images = rawMessage.additional_kwargs.images as string[] | null
 
-        if (model?.includes('Hunyuan-vl') && images != null) {
+        // 模型是否支持图片由 ModelInfo.imageInput 决定，不支持时图片已被移除
+        if (images != null) {
             msg.content = [
                 {
                     type: 'text',
@@ -0,0 +1,104 @@
+import { Context } from 'koishi'
+import { PlatformModelAndEmbeddingsClient } from 'koishi-plugin-chatluna/llm-core/platform/client'
+import { ClientConfig } from 'koishi-plugin-chatluna/llm-core/platform/config'
+import {
+    ChatHubBaseEmbeddings,
+    ChatLunaChatModel,
+    ChatLunaEmbeddings
+} from 'koishi-plugin-chatluna/llm-core/platform/model'
+import {
+    ModelInfo,
+    ModelType
+} from 'koishi-plugin-chatluna/llm-core/platform/types'
+import {
+    ChatLunaError,
+    ChatLunaErrorCode
+} from 'koishi-plugin-chatluna/utils/error'
+import { Config } from '.'
+import { MockRequester } from './requester'
+
+export class MockClient extends PlatformModelAndEmbeddingsClient<ClientConfig> {
+    platform: string
+
+    private _requester: MockRequester
+
+    private _models: Record<string, ModelInfo>
+
+    constructor(
+        ctx: Context,
+        private _config: Config,
+        clientConfig: ClientConfig
+    ) {
+        super(ctx, clientConfig)
+
+        this.platform = _config.platform
+        this._requester = new MockRequester(_config)
+    }
+
+    async init(): Promise<void> {
+        await this.getModels()
+    }
+
+    async refreshModels(): Promise<ModelInfo[]> {
+        return [
+            ...this._config.models.map((model) => ({
+                name: model,
+                type: ModelType.llm,
+                maxTokens: this._config.maxTokens,
+                functionCall: this._config.functionCall,
+                imageInput: this._config.imageInput,
+                supportMode: this._config.supportMode
+            })),
+            ...this._config.embeddingModels.map((model) => ({
+                name: model,
+                type: ModelType.embeddings,
+                supportMode: ['all']
+            }))
+        ]
+    }
+
+    async getModels(): Promise<ModelInfo[]> {
+        if (this._models) {
+            return Object.values(this._models)
+        }
+
+        const models = await this.refreshModels()
+
+        this._models = {}
+
+        for (const model of models) {
+            this._models[model.name] = model
+        }
+
+        return models
+    }
+
+    protected _createModel(
+        model: string
+    ): ChatLunaChatModel | ChatHubBaseEmbeddings {
+        const info = this._models[model]
+
+        if (info == null) {
+            throw new ChatLunaError(ChatLunaErrorCode.MODEL_NOT_FOUND)
+        }
+
+        if (info.type === ModelType.llm) {
+            return new ChatLunaChatModel({
+                modelInfo: info,
+                requester: this._requester,
+                model,
+                maxTokenLimit: this._config.maxTokens,
+                modelMaxContextSize: info.maxTokens,
+                timeout: this._config.timeout,
+                maxRetries: this._config.maxRetries,
+                llmType: 'mock'
+            })
+        }
+
+        return new ChatLunaEmbeddings({
+            client: this._requester,
+            model,
+            maxRetries: this._config.maxRetries
+        })
+    }
+}
@@ -0,0 +1,118 @@
+import { Context, Schema } from 'koishi'
+import { ChatLunaPlugin } from 'koishi-plugin-chatluna/services/chat'
+import { MockClient } from './client'
+
+export function apply(ctx: Context, config: Config) {
+    const plugin = new ChatLunaPlugin(ctx, config, config.platform)
+
+    ctx.on('ready', async () => {
+        plugin.registerToService()
+
+        await plugin.parseConfig((config) => {
+            return [
+                {
+                    apiKey: 'mock',
+                    apiEndpoint: '',
+                    platform: config.platform,
+                    chatLimit: config.chatTimeLimit,
+                    timeout: config.timeout,
+                    maxRetries: config.maxRetries,
+                    concurrentMaxSize: config.chatConcurrentMaxSize
+                }
+            ]
+        })
+
+        plugin.registerClient(
+            (_, clientConfig) => new MockClient(ctx, config, clientConfig)
+        )
+
+        await plugin.initClients()
+    })
+}
+
+export interface Config extends ChatLunaPlugin.Config {
+    platform: string
+    models: string[]
+    supportMode: string[]
+    functionCall: boolean
+    imageInput: boolean
+    embeddingModels: string[]
+    maxTokens: number
+    embeddingDimensions: number
+
+    responses: MockResponse[]
+    defaultResponse: string
+    toolCalls: MockToolCall[]
+
+    chunkSize: number
+    chunkDelay: number
+    latency: number
+
+    errorPattern: string
+    errorRate: number
+    errorCode: number
+}
+
+export interface MockResponse {
+    pattern: string
+    response: string
+}
+
+export interface MockToolCall {
+    pattern: string
+    tool: string
+    arguments: string
+}
+
+export const Config: Schema<Config> = Schema.intersect([
+    ChatLunaPlugin.Config,
+    Schema.object({
+        platform: Schema.string().default('mock'),
+        models: Schema.array(Schema.string()).default(['mock-chat']),
+        supportMode: Schema.array(Schema.string()).default(['all']),
+        functionCall: Schema.boolean().default(true),
+        imageInput: Schema.boolean().default(false),
+        embeddingModels: Schema.array(Schema.string()).default([
+            'mock-embeddings'
+        ]),
+        maxTokens: Schema.number().min(16).max(128000).default(4096),
+        embeddingDimensions: Schema.number().min(8).max(4096).default(256)
+    }),
+    Schema.object({
+        responses: Schema.array(
+            Schema.object({
+                pattern: Schema.string(),
+                response: Schema.string()
+            })
+        )
+            .role('table')
+            .default([]),
+        defaultResponse: Schema.string().default('{input}'),
+        toolCalls: Schema.array(
+            Schema.object({
+                pattern: Schema.string(),
+                tool: Schema.string(),
+                arguments: Schema.string().default('{}')
+            })
+        )
+            .role('table')
+            .default([])
+    }),
+    Schema.object({
+        chunkSize: Schema.number().min(0).default(4),
+        chunkDelay: Schema.number().min(0).default(50),
+        latency: Schema.number().min(0).default(0)
+    }),
+    Schema.object({
+        errorPattern: Schema.string().default(''),
+        errorRate: Schema.percent().min(0).max(1).step(0.01).default(0),
+        errorCode: Schema.number().default(103)
+    })
+]).i18n({
+    'zh-CN': require('./locales/zh-CN.schema.yml'),
+    'en-US': require('./locales/en-US.schema.yml')
+})
+
+export const inject = ['chatluna']
+
+export const name = 'chatluna-mock-adapter'
@@ -0,0 +1,175 @@
+import { AIMessageChunk } from '@langchain/core/messages'
+import { ChatGenerationChunk } from '@langchain/core/outputs'
+import { sleep } from 'koishi'
+import {
+    EmbeddingsRequester,
+    EmbeddingsRequestParams,
+    ModelRequester,
+    ModelRequestParams
+} from 'koishi-plugin-chatluna/llm-core/platform/api'
+import {
+    ChatLunaError,
+    ChatLunaErrorCode
+} from 'koishi-plugin-chatluna/utils/error'
+import { Config } from '.'
+import {
+    estimateTokens,
+    findResponse,
+    findToolCall,
+    formatTemplate,
+    getLastHumanMessage,
+    getMessageText,
+    hashEmbedding,
+    matchPattern,
+    splitChunks
+} from './utils'
+
+export class MockRequester
+    extends ModelRequester
+    implements EmbeddingsRequester
+{
+    private _toolCallCount = 0
+
+    constructor(private _config: Config) {
+        super()
+    }
+
+    async *completionStream(
+        params: ModelRequestParams
+    ): AsyncGenerator<ChatGenerationChunk> {
+        const input = getLastHumanMessage(params.input)
+
+        await this._simulateRequest(input, params.signal)
+
+        const promptTokens = params.input.reduce(
+            (sum, message) =>
+                sum + estimateTokens(getMessageText(message.content)),
+            0
+        )
+
+        const lastMessage = params.input[params.input.length - 1]
+        const hasTools = (params.tools?.length ?? 0) > 0
+
+        // 只在用户发言后调用工具，避免工具结果返回后再次循环调用
+        const toolCall =
+            hasTools && lastMessage?.getType() === 'human'
+                ? findToolCall(this._config.toolCalls, input)
+                : undefined
+
+        if (
+            toolCall != null &&
+            params.tools.some((tool) => tool.name === toolCall.tool)
+        ) {
+            const args = formatTemplate(toolCall.arguments, input)
+
+            yield new ChatGenerationChunk({
+                text: '',
+                message: new AIMessageChunk({
+                    content: '',
+                    additional_kwargs: {
+                        tool_calls: [
+                            {
+                                id: `call_mock_${++this._toolCallCount}`,
+                                type: 'function',
+                                function: {
+                                    name: toolCall.tool,
+                                    arguments: args
+                                }
+                            }
+                        ]
+                    }
+                }),
+                generationInfo: {
+                    tokenUsage: {
+                        promptTokens,
+                        completionTokens: estimateTokens(args),
+                        totalTokens: promptTokens + estimateTokens(args)
+                    }
+                }
+            })
+
+            return
+        }
+
+        const response = findResponse(
+            this._config.responses,
+            this._config.defaultResponse,
+            input
+        )
+
+        // 使用工具时模型会合并所有的块，只返回一个完整的块
+        const chunks = hasTools
+            ? [response]
+            : splitChunks(response, this._config.chunkSize)
+
+        let content = ''
+
+        for (let i = 0; i < chunks.length; i++) {
+            if (i > 0 && this._config.chunkDelay > 0) {
+                await sleep(this._config.chunkDelay)
+            }
+
+            if (params.signal?.aborted) {
+                throw new ChatLunaError(ChatLunaErrorCode.ABORTED)
+            }
+
+            content += chunks[i]
+
+            const isLast = i === chunks.length - 1
+            const completionTokens = estimateTokens(content)
+
+            yield new ChatGenerationChunk({
+                text: content,
+                message: new AIMessageChunk({ content }),
+                generationInfo: isLast
+                    ? {
+                          tokenUsage: {
+                              promptTokens,
+                              completionTokens,
+                              totalTokens: promptTokens + completionTokens
+                          }
+                      }
+                    : undefined
+            })
+        }
+    }
+
+    async embeddings(
+        params: EmbeddingsRequestParams
+    ): Promise<number[] | number[][]> {
+        const input =
+            typeof params.input === 'string' ? [params.input] : params.input
+
+        await this._simulateRequest(input.join('\n'), params.signal)
+
+        const result = input.map((text) =>
+            hashEmbedding(text, this._config.embeddingDimensions)
+        )
+
+        return typeof params.input === 'string' ? result[0] : result
+    }
+
+    private async _simulateRequest(input: string, signal?: AbortSignal) {
+        if (this._config.latency > 0) {
+            await sleep(this._config.latency)
+        }
+
+        if (signal?.aborted) {
+            throw new ChatLunaError(ChatLunaErrorCode.ABORTED)
+        }
+
+        if (
+            matchPattern(this._config.errorPattern, input) ||
+            Math.random() < this._config.errorRate
+        ) {
+            throw new ChatLunaError(
+                this._config.errorCode as ChatLunaErrorCode,
+                new Error(`Mock error for input: ${input}`)
+            )
+        }
+    }
+
+    async init(): Promise<void> {}
+
+    async dispose(): Promise<void> {}
+}
@@ -0,0 +1,107 @@
+import { BaseMessage, MessageContent } from '@langchain/core/messages'
+import { createHash } from 'crypto'
+import { MockResponse, MockToolCall } from '.'
+
+export function getMessageText(content: MessageContent): string {
+    if (typeof content === 'string') {
+        return content
+    }
+
+    return content
+        .map((part) => (part.type === 'text' ? part.text : ''))
+        .join('')
+}
+
+export function getLastHumanMessage(messages: BaseMessage[]) {
+    for (let i = messages.length - 1; i >= 0; i--) {
+        if (messages[i].getType() === 'human') {
+            return getMessageText(messages[i].content)
+        }
+    }
+
+    return ''
+}
+
+export function matchPattern(pattern: string, input: string) {
+    if (pattern == null || pattern.length < 1) {
+        return false
+    }
+
+    try {
+        return new RegExp(pattern).test(input)
+    } catch {
+        // 非法的正则表达式按普通文本匹配
+        return input.includes(pattern)
+    }
+}
+
+export function findResponse(
+    responses: MockResponse[],
+    defaultResponse: string,
+    input: string
+) {
+    const matched = responses.find((item) => matchPattern(item.pattern, input))
+
+    return formatTemplate(matched?.response ?? defaultResponse, input)
+}
+
+export function findToolCall(toolCalls: MockToolCall[], input: string) {
+    return toolCalls.find((item) => matchPattern(item.pattern, input))
+}
+
+export function formatTemplate(template: string, input: string) {
+    return template.replaceAll('{input}', input)
+}
+
+export function splitChunks(text: string, chunkSize: number) {
+    const chars = Array.from(text)
+
+    if (chunkSize < 1 || chars.length <= chunkSize) {
+        return [text]
+    }
+
+    const chunks: string[] = []
+
+    for (let i = 0; i < chars.length; i += chunkSize) {
+        chunks.push(chars.slice(i, i + chunkSize).join(''))
+    }
+
+    return chunks
+}
+
+export function estimateTokens(text: string) {
+    return Math.ceil(text.length / 4)
+}
+
+/**
+ * Hash each token of the text into a fixed-size vector, so that
+ * the same text always gets the same embedding and similar texts
+ * get similar embeddings.
+ */
+export function hashEmbedding(text: string, dimensions: number) {
+    const vector = new Array<number>(dimensions).fill(0)
+
+    // 英文按单词切分，中文按单字切分
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+|\S/gu) ?? []
+
+    const words = tokens.flatMap((token) =>
+        /[一-鿿]/.test(token) ? Array.from(token) : [token]
+    )
+
+    if (words.length < 1) {
+        words.push(text)
+    }
+
+    for (const word of words) {
+        const hash = createHash('md5').update(word).digest()
+
+        const index = hash.readUInt32BE(0) % dimensions
+        const sign = (hash[4] & 1) === 0 ? 1 : -1
+
+        vector[index] += sign
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value ** 2, 0))
+
+    return norm === 0 ? vector : vector.map((value) => value / norm)
+}
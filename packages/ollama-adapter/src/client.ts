@@ -12,6 +12,7 @@ import {
 } from 'koishi-plugin-chatluna/utils/error'
 import { Config } from '.'
 import { OllamaRequester } from './requester'
+import { OllamaModel } from './types'
 import { ChatLunaPlugin } from 'koishi-plugin-chatluna/services/chat'
 
 export class OllamaClient extends PlatformModelClient<ClientConfig> {
@@ -42,8 +43,11 @@ export class OllamaClient extends PlatformModelClient<ClientConfig> {
 
             return rawModels.map((model) => {
                 return {
-                    name: model,
+                    name: model.name,
                     type: ModelType.llm,
+                    // ollama 通过 format 参数约束输出
+                    structuredOutput: true,
+                    imageInput: isVisionModel(model),
                     supportMode: ['all'],
                     maxTokens: ((model: string) => {
                         if (model.startsWith('llama3')) {
@@ -51,7 +55,7 @@ export class OllamaClient extends PlatformModelClient<ClientConfig> {
                         }
 
                         return 8000
-                    })(model)
+                    })(model.name)
                 }
             })
         } catch (e) {
@@ -99,3 +103,14 @@ export class OllamaClient extends PlatformModelClient<ClientConfig> {
         }
     }
 }
+
+function isVisionModel(model: OllamaModel) {
+    const families = model.details?.families ?? []
+
+    return (
+        families.includes('clip') ||
+        families.includes('mllama') ||
+        model.name.includes('llava') ||
+        model.name.includes('vision')
+    )
+}
@@ -11,8 +11,9 @@ import {
 } from 'koishi-plugin-chatluna/utils/error'
 import { sse } from 'koishi-plugin-chatluna/utils/sse'
 import { readableStreamToAsyncIterable } from 'koishi-plugin-chatluna/utils/stream'
+import { parseThinkContent } from 'koishi-plugin-chatluna/utils/string'
 import * as fetchType from 'undici/types/fetch'
-import { OllamaDeltaResponse, OllamaRequest } from './types'
+import { OllamaDeltaResponse, OllamaModel, OllamaRequest } from './types'
 import { langchainMessageToOllamaMessage } from './utils'
 import { ChatLunaPlugin } from 'koishi-plugin-chatluna/services/chat'
 
@@ -42,6 +43,7 @@ export class OllamaRequester extends ModelRequester {
                                 ? params.stop
                                 : params.stop?.[0]
                     },
+                    format: params.responseFormat?.schema,
                     stream: true
                 } satisfies OllamaRequest,
                 {
@@ -78,15 +80,42 @@ export class OllamaRequester extends ModelRequester {
                 0
             )
 
-            let content = ''
+            let rawContent = ''
+            let thinking = ''
 
             for await (const chunk of iterable) {
                 try {
-                    content += chunk.message.content
+                    rawContent += chunk.message.content
+                    thinking += chunk.message.thinking ?? ''
 
+                    // 推理模型会把推理内容放在 <think> 标签中
+                    const { reasoningContent, content } =
+                        parseThinkContent(rawContent)
+
+                    const reasoning = thinking + reasoningContent
+
+                    // 最后一个 chunk 中包含用量
                     const generationChunk = new ChatGenerationChunk({
-                        message: new AIMessageChunk(content),
-                        text: content
+                        message: new AIMessageChunk({
+                            content,
+                            additional_kwargs:
+                                reasoning.length > 0
+                                    ? { reasoning_content: reasoning }
+                                    : {}
+                        }),
+                        text: content,
+                        generationInfo: chunk.done
+                            ? {
+                                  tokenUsage: {
+                                      promptTokens:
+                                          chunk.prompt_eval_count ?? 0,
+                                      completionTokens: chunk.eval_count ?? 0,
+                                      totalTokens:
+                                          (chunk.prompt_eval_count ?? 0) +
+                                          (chunk.eval_count ?? 0)
+                                  }
+                              }
+                            : undefined
                     })
                     yield generationChunk
 
@@ -112,7 +141,7 @@ export class OllamaRequester extends ModelRequester {
         }
     }
 
-    async getModels(): Promise<string[]> {
+    async getModels(): Promise<OllamaModel[]> {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         let data: any
         try {
@@ -120,10 +149,7 @@ export class OllamaRequester extends ModelRequester {
             data = await response.text()
             data = JSON.parse(data as string)
 
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            return (<Record<string, any>[]>data.models).map(
-                (model) => model.name
-            )
+            return data.models as OllamaModel[]
         } catch (e) {
             const error = new Error(
                 'error when listing ollama models, Result: ' +
@@ -8,16 +8,31 @@ export interface OllamaRequest {
     }
     messages: OllamaMessage[]
     stream: boolean
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    format?: 'json' | Record<string, any>
 }
 
 export interface OllamaDeltaResponse {
     model: string
     message: OllamaMessage
     done: boolean
+    prompt_eval_count?: number
+    eval_count?: number
 }
 
 export interface OllamaMessage {
     role: string
     content: string
+    // 开启 think 参数时的推理内容
+    thinking?: string
     images?: string[]
 }
+
+export interface OllamaModel {
+    name: string
+    details?: {
+        family?: string
+        // 多模态模型会包含视觉编码器，如 clip
+        families?: string[]
+    }
+}
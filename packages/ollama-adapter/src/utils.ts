@@ -9,8 +9,11 @@ export function langchainMessageToOllamaMessage(
     const mappedMessage = messages.map((rawMessage) => {
         let images: string[] = []
 
+        // ollama 只接受不带前缀的 base64
         if (rawMessage.additional_kwargs.images != null) {
-            images = rawMessage.additional_kwargs.images as string[]
+            images = (rawMessage.additional_kwargs.images as string[]).map(
+                (image) => image.replace(/^data:image\/\w+;base64,/, '')
+            )
         } else {
             images = undefined
         }
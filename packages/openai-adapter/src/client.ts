@@ -33,7 +33,7 @@ export class OpenAIClient extends PlatformModelAndEmbeddingsClient<ClientConfig>
     ) {
         super(ctx, clientConfig)
 
-        this._requester = new OpenAIRequester(clientConfig, plugin)
+        this._requester = new OpenAIRequester(clientConfig, _config, plugin)
     }
 
     async init(): Promise<void> {
@@ -61,6 +61,13 @@ export class OpenAIClient extends PlatformModelAndEmbeddingsClient<ClientConfig>
                             ? ModelType.llm
                             : ModelType.embeddings,
                         functionCall: true,
+                        // gpt-4o-2024-05-13 不支持 json_schema
+                        structuredOutput:
+                            model.startsWith('gpt-4o') &&
+                            !model.includes('2024-05-13'),
+                        imageInput:
+                            model.includes('vision') ||
+                            model.startsWith('gpt-4o'),
                         supportMode: ['all']
                     }
                 })
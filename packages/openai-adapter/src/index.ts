@@ -38,6 +38,7 @@ export function apply(ctx: Context, config: Config) {
 
 export interface Config extends ChatLunaPlugin.Config {
     apiKeys: [string, string][]
+    includeUsage: boolean
     maxTokens: number
     temperature: number
     presencePenalty: number
@@ -52,7 +53,8 @@ export const Config: Schema<Config> = Schema.intersect([
                 Schema.string().role('secret'),
                 Schema.string().default('https://api.openai.com/v1')
             ])
-        ).default([['', 'https://api.openai.com/v1']])
+        ).default([['', 'https://api.openai.com/v1']]),
+        includeUsage: Schema.boolean().default(false)
     }),
     Schema.object({
         maxTokens: Schema.number().min(16).max(128000).step(16).default(1024),
@@ -1,3 +1,4 @@
+import { AIMessageChunk } from '@langchain/core/messages'
 import { ChatGenerationChunk } from '@langchain/core/outputs'
 import {
     EmbeddingsRequester,
@@ -12,7 +13,7 @@ import {
 } from 'koishi-plugin-chatluna/utils/error'
 import { sseIterable } from 'koishi-plugin-chatluna/utils/sse'
 import * as fetchType from 'undici/types/fetch'
-import { logger } from '.'
+import { Config, logger } from '.'
 import {
     ChatCompletionResponse,
     ChatCompletionResponseMessageRoleEnum,
@@ -31,6 +32,7 @@ export class OpenAIRequester
 {
     constructor(
         private _config: ClientConfig,
+        private _pluginConfig: Config,
         private _plugin: ChatLunaPlugin
     ) {
         super()
@@ -44,10 +46,7 @@ export class OpenAIRequester
                 'chat/completions',
                 {
                     model: params.model,
-                    messages: langchainMessageToOpenAIMessage(
-                        params.input,
-                        params.model
-                    ),
+                    messages: langchainMessageToOpenAIMessage(params.input),
                     tools:
                         params.tools != null
                             ? formatToolsToOpenAITools(params.tools)
@@ -64,7 +63,22 @@ export class OpenAIRequester
                     top_p: params.topP,
                     user: params.user ?? 'user',
                     stream: true,
-                    logit_bias: params.logitBias
+                    // 部分兼容 API 不支持 stream_options，需要手动开启
+                    stream_options: this._pluginConfig.includeUsage
+                        ? { include_usage: true }
+                        : undefined,
+                    logit_bias: params.logitBias,
+                    response_format:
+                        params.responseFormat != null
+                            ? {
+                                  type: 'json_schema',
+                                  json_schema: {
+                                      name: params.responseFormat.name,
+                                      schema: params.responseFormat.schema,
+                                      strict: params.responseFormat.strict
+                                  }
+                              }
+                            : undefined
                 },
                 {
                     signal: params.signal
@@ -99,8 +113,31 @@ export class OpenAIRequester
                         )
                     }
 
+                    const generationInfo =
+                        data.usage != null
+                            ? {
+                                  tokenUsage: {
+                                      promptTokens: data.usage.prompt_tokens,
+                                      completionTokens:
+                                          data.usage.completion_tokens,
+                                      totalTokens: data.usage.total_tokens
+                                  }
+                              }
+                            : undefined
+
                     const choice = data.choices?.[0]
                     if (!choice) {
+                        // 最后一个 chunk 可能只包含用量
+                        if (generationInfo != null) {
+                            yield new ChatGenerationChunk({
+                                message: new AIMessageChunk(
+                                    findTools ? '' : content
+                                ),
+                                text: findTools ? '' : content,
+                                generationInfo
+                            })
+                        }
+
                         continue
                     }
 
@@ -120,7 +157,8 @@ export class OpenAIRequester
 
                     const generationChunk = new ChatGenerationChunk({
                         message: messageChunk,
-                        text: messageChunk.content as string
+                        text: messageChunk.content as string,
+                        generationInfo
                     })
 
                     yield generationChunk
@@ -18,8 +18,7 @@ import {
 } from './types'
 
 export function langchainMessageToOpenAIMessage(
-    messages: BaseMessage[],
-    model?: string
+    messages: BaseMessage[]
 ): ChatCompletionResponseMessage[] {
     const result: ChatCompletionResponseMessage[] = []
 
@@ -60,10 +59,8 @@ export function langchainMessageToOpenAIMessage(
 
         const images = rawMessage.additional_kwargs.images as string[] | null
 
-        if (
-            (model?.includes('vision') || model?.startsWith('gpt-4o')) &&
-            images != null
-        ) {
+        // 模型是否支持图片由 ModelInfo.imageInput 决定，不支持时图片已被移除
+        if (images != null) {
             msg.content = [
                 {
                     type: 'text',
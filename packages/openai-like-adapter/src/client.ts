@@ -57,6 +57,7 @@ export class OpenAIClient extends PlatformModelAndEmbeddingsClient {
                                 : ModelType.llm,
                         functionCall:
                             modelType === 'LLM 大语言模型（函数调用）',
+                        imageInput: isVisionModel(model),
                         maxTokens: contextSize ?? 4096,
                         supportMode: ['all']
                     }) as ModelInfo
@@ -77,6 +78,7 @@ export class OpenAIClient extends PlatformModelAndEmbeddingsClient {
                             ? ModelType.embeddings
                             : ModelType.llm,
                         functionCall: true,
+                        imageInput: isVisionModel(model),
                         supportMode: ['all']
                     }) as ModelInfo
             )
@@ -170,3 +172,12 @@ export class OpenAIClient extends PlatformModelAndEmbeddingsClient {
         return 8192
     }
 }
+
+function isVisionModel(model: string) {
+    return (
+        model.includes('vision') ||
+        model.startsWith('gpt-4o') ||
+        model.startsWith('claude-3') ||
+        model.includes('gemini-1.5')
+    )
+}
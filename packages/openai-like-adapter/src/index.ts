@@ -59,6 +59,7 @@ export interface Config extends ChatLunaPlugin.Config {
         contextSize: number
     }[]
     additionCookies: [string, string][]
+    includeUsage: boolean
     maxTokens: number
     temperature: number
     presencePenalty: number
@@ -92,7 +93,8 @@ export const Config: Schema<Config> = Schema.intersect([
         ).default([['', 'https://api.openai.com/v1']]),
         additionCookies: Schema.array(
             Schema.tuple([Schema.string(), Schema.string()])
-        ).default([])
+        ).default([]),
+        includeUsage: Schema.boolean().default(false)
     }),
     Schema.object({
         maxTokens: Schema.number().min(16).max(2000000).step(16).default(4096),
@@ -1,3 +1,4 @@
+import { AIMessageChunk } from '@langchain/core/messages'
 import { ChatGenerationChunk } from '@langchain/core/outputs'
 import {
     EmbeddingsRequester,
@@ -45,10 +46,7 @@ export class OpenAIRequester
                 'chat/completions',
                 {
                     model: params.model,
-                    messages: langchainMessageToOpenAIMessage(
-                        params.input,
-                        params.model
-                    ),
+                    messages: langchainMessageToOpenAIMessage(params.input),
                     tools:
                         params.tools != null
                             ? formatToolsToOpenAITools(params.tools)
@@ -65,6 +63,10 @@ export class OpenAIRequester
                     top_p: params.topP,
                     user: params.user ?? 'user',
                     stream: true,
+                    // 部分兼容 API 不支持 stream_options，需要手动开启
+                    stream_options: this._pluginConfig.includeUsage
+                        ? { include_usage: true }
+                        : undefined,
                     logit_bias: params.logitBias
                 },
                 {
@@ -74,6 +76,7 @@ export class OpenAIRequester
 
             const iterator = sseIterable(response)
             let content = ''
+            let reasoningContent = ''
 
             const findTools = params.tools != null
             let defaultRole: ChatCompletionResponseMessageRoleEnum = 'assistant'
@@ -100,8 +103,39 @@ export class OpenAIRequester
                         )
                     }
 
+                    const generationInfo =
+                        data.usage != null
+                            ? {
+                                  tokenUsage: {
+                                      promptTokens: data.usage.prompt_tokens,
+                                      completionTokens:
+                                          data.usage.completion_tokens,
+                                      totalTokens: data.usage.total_tokens
+                                  }
+                              }
+                            : undefined
+
                     const choice = data.choices?.[0]
                     if (!choice) {
+                        // 最后一个 chunk 可能只包含用量
+                        if (generationInfo != null) {
+                            yield new ChatGenerationChunk({
+                                message: new AIMessageChunk({
+                                    content: findTools ? '' : content,
+                                    additional_kwargs:
+                                        !findTools &&
+                                        reasoningContent.length > 0
+                                            ? {
+                                                  reasoning_content:
+                                                      reasoningContent
+                                              }
+                                            : {}
+                                }),
+                                text: findTools ? '' : content,
+                                generationInfo
+                            })
+                        }
+
                         continue
                     }
 
@@ -120,9 +154,24 @@ export class OpenAIRequester
                         messageChunk.content = content
                     }
 
+                    // 推理内容不计入回复，单独放在 reasoning_content 中
+                    if (delta.reasoning_content?.length > 0) {
+                        reasoningContent += delta.reasoning_content
+
+                        // 使用工具时块会被合并，只需要放入增量
+                        messageChunk.additional_kwargs.reasoning_content =
+                            findTools
+                                ? delta.reasoning_content
+                                : reasoningContent
+                    } else if (!findTools && reasoningContent.length > 0) {
+                        messageChunk.additional_kwargs.reasoning_content =
+                            reasoningContent
+                    }
+
                     const generationChunk = new ChatGenerationChunk({
                         message: messageChunk,
-                        text: messageChunk.content as string
+                        text: messageChunk.content as string,
+                        generationInfo
                     })
 
                     yield generationChunk
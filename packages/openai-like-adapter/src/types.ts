@@ -4,6 +4,8 @@ export interface ChatCompletionResponse {
         finish_reason: string | null
         delta: {
             content?: string
+            // DeepSeek 等推理模型的推理内容
+            reasoning_content?: string
             role?: string
             function_call?: ChatCompletionRequestMessageToolCall
         }
@@ -66,6 +66,7 @@ export class QWenClient extends PlatformModelAndEmbeddingsClient<ClientConfig> {
                     name: model,
                     type: ModelType.llm,
                     functionCall: llmType === 'LLM 大语言模型（函数调用）',
+                    imageInput: model.includes('qwen-vl'),
                     maxTokens: token ?? 4096,
                     supportMode: ['all']
                 } as ModelInfo
@@ -83,6 +84,7 @@ export class QWenClient extends PlatformModelAndEmbeddingsClient<ClientConfig> {
                     functionCall:
                         model.includes('qwen-plus') ||
                         model.includes('qwen-max'),
+                    imageInput: model.includes('qwen-vl'),
                     supportMode: ['all']
                 } as ModelInfo
             })
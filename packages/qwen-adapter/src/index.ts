@@ -33,6 +33,7 @@ export function apply(ctx: Context, config: Config) {
 
 export interface Config extends ChatLunaPlugin.Config {
     apiKeys: string[]
+    includeUsage: boolean
     enableSearch: boolean
     additionalModels: {
         model: string
@@ -56,7 +57,8 @@ export const Config: Schema<Config> = Schema.intersect([
                 ]).default('LLM 大语言模型'),
                 contextSize: Schema.number().default(4096)
             }).role('table')
-        ).default([])
+        ).default([]),
+        includeUsage: Schema.boolean().default(false)
     }),
     Schema.object({
         maxTokens: Schema.number().min(16).max(128000).step(16).default(4096),
@@ -1,4 +1,4 @@
-import { BaseMessageChunk } from '@langchain/core/messages'
+import { AIMessageChunk, BaseMessageChunk } from '@langchain/core/messages'
 import { ChatGenerationChunk } from '@langchain/core/outputs'
 import {
     EmbeddingsRequester,
@@ -46,15 +46,15 @@ export class QWenRequester
                 'chat/completions',
                 {
                     model: params.model,
-                    messages: langchainMessageToQWenMessage(
-                        params.input,
-                        params.model
-                    ),
+                    messages: langchainMessageToQWenMessage(params.input),
                     tools:
                         params.tools != null && !params.model.includes('vl')
                             ? formatToolsToQWenTools(params.tools)
                             : undefined,
                     stream: true,
+                    stream_options: this._pluginConfig.includeUsage
+                        ? { include_usage: true }
+                        : undefined,
                     top_p: params.topP,
                     temperature: params.temperature,
                     enable_search: params.model.includes('vl')
@@ -120,9 +120,33 @@ export class QWenRequester
                     )
                 }
 
-                const choice = data.choices?.[0]
+                const generationInfo =
+                    data.usage != null
+                        ? {
+                              tokenUsage: {
+                                  promptTokens: data.usage.prompt_tokens,
+                                  completionTokens:
+                                      data.usage.completion_tokens,
+                                  totalTokens: data.usage.total_tokens
+                              }
+                          }
+                        : undefined
 
+                const choice = data.choices?.[0]
                 if (!choice) {
+                    // 最后一个 chunk 可能只包含用量
+                    if (generationInfo != null) {
+                        const content = findTools
+                            ? ''
+                            : (lastMessageChunk?.content ?? '')
+
+                        yield new ChatGenerationChunk({
+                            message: new AIMessageChunk({ content }),
+                            text: content as string,
+                            generationInfo
+                        })
+                    }
+
                     continue
                 }
 
@@ -138,16 +162,13 @@ export class QWenRequester
 
                 const generationChunk = new ChatGenerationChunk({
                     message: messageChunk,
-                    text: messageChunk.content as string
+                    text: messageChunk.content as string,
+                    generationInfo
                 })
 
                 yield generationChunk
 
                 lastMessageChunk = messageChunk
-
-                if (choice.finish_reason === 'stop') {
-                    break
-                }
             }
         } catch (e) {
             if (e instanceof ChatLunaError) {
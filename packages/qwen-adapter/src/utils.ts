@@ -40,8 +40,7 @@ export function formatToolToQWenTool(tool: StructuredTool): ChatCompletionTool {
 }
 
 export function langchainMessageToQWenMessage(
-    messages: BaseMessage[],
-    model: string
+    messages: BaseMessage[]
 ): ChatCompletionResponseMessage[] {
     const result: ChatCompletionResponseMessage[] = []
 
@@ -82,7 +81,8 @@ export function langchainMessageToQWenMessage(
 
         const images = rawMessage.additional_kwargs.images as string[] | null
 
-        if (model?.includes('qwen-vl') && images != null) {
+        // 模型是否支持图片由 ModelInfo.imageInput 决定，不支持时图片已被移除
+        if (images != null) {
             msg.content = [
                 {
                     type: 'text',
@@ -1,3 +1,4 @@
+import { AIMessageChunk } from '@langchain/core/messages'
 import {
     EmbeddingsRequester,
     EmbeddingsRequestParams,
@@ -95,8 +96,31 @@ export class RWKVRequester
                         )
                     }
 
+                    const generationInfo =
+                        data.usage != null
+                            ? {
+                                  tokenUsage: {
+                                      promptTokens: data.usage.prompt_tokens,
+                                      completionTokens:
+                                          data.usage.completion_tokens,
+                                      totalTokens: data.usage.total_tokens
+                                  }
+                              }
+                            : undefined
+
                     const choice = data.choices?.[0]
                     if (!choice) {
+                        // 最后一个 chunk 可能只包含用量
+                        if (generationInfo != null) {
+                            yield new ChatGenerationChunk({
+                                message: new AIMessageChunk(
+                                    findTools ? '' : content
+                                ),
+                                text: findTools ? '' : content,
+                                generationInfo
+                            })
+                        }
+
                         continue
                     }
 
@@ -117,7 +141,8 @@ export class RWKVRequester
 
                     const generationChunk = new ChatGenerationChunk({
                         message: messageChunk,
-                        text: messageChunk.content as string
+                        text: messageChunk.content as string,
+                        generationInfo
                     })
 
                     yield generationChunk
@@ -91,9 +91,12 @@ export class SparkRequester extends ModelRequester {
                 return
             }
 
+            const tokenUsage = chunk.response_metadata?.tokenUsage
+
             yield new ChatGenerationChunk({
                 text: chunk.content as string,
-                message: chunk
+                message: chunk,
+                generationInfo: tokenUsage != null ? { tokenUsage } : undefined
             })
         }
 
@@ -300,6 +303,20 @@ export class SparkRequester extends ModelRequester {
                 }
             }
 
+            // 最后一条消息中包含用量
+            const usage = response.payload?.usage?.text
+
+            if (status === 2 && usage != null) {
+                chunk.response_metadata = {
+                    ...chunk.response_metadata,
+                    tokenUsage: {
+                        promptTokens: usage.prompt_tokens,
+                        completionTokens: usage.completion_tokens,
+                        totalTokens: usage.total_tokens
+                    }
+                }
+            }
+
             writable.write(chunk)
 
             if (status === 2) {
@@ -39,6 +39,8 @@ export const inject = ['chatluna']
 export const usage = `
 现我们不再直接依赖向量数据库的相关库，你需要自己安装相关依赖到 koishi 根目录下。
 
+JSON 数据库无需安装任何依赖，会将向量保存到 \`data/chathub/vector_store\` 目录下的 JSON 文件中，适合数据量较小的场景（如长期记忆）。
+
 要查看如何配置 Faiss 数据库，看[这里](https://js.langchain.com/docs/integrations/vectorstores/faiss/)
 
 要查看如何配置 Redis 数据库，看[这里](https://js.langchain.com/docs/integrations/vectorstores/redis/)
@@ -3,6 +3,7 @@ import { ChatLunaPlugin } from 'koishi-plugin-chatluna/services/chat'
 import { Config } from '.'
 // import start
 import { apply as faiss } from './vectorstore/faiss'
+import { apply as json } from './vectorstore/json'
 import { apply as lancedb } from './vectorstore/lancedb'
 import { apply as redis } from './vectorstore/redis' // import end
 
@@ -19,7 +20,7 @@ export async function vectorStore(
 
     const middlewares: VectorStore[] =
         // middleware start
-        [faiss, lancedb, redis] // middleware end
+        [faiss, json, lancedb, redis] // middleware end
 
     for (const middleware of middlewares) {
         try {
@@ -0,0 +1,224 @@
+import { Context, Logger } from 'koishi'
+import { Document } from '@langchain/core/documents'
+import { EmbeddingsInterface } from '@langchain/core/embeddings'
+import { ChatLunaSaveableVectorStore } from 'koishi-plugin-chatluna/llm-core/model/base'
+import { MemoryVectorStore } from 'koishi-plugin-chatluna/llm-core/vectorstores'
+import { createLogger } from 'koishi-plugin-chatluna/utils/logger'
+import { ChatLunaPlugin } from 'koishi-plugin-chatluna/services/chat'
+import { randomUUID } from 'crypto'
+import path from 'path'
+import fs from 'fs/promises'
+import { Config } from '..'
+
+let logger: Logger
+
+// 相同 key 共用一个实例，避免多个实例互相覆盖同一个文件
+const stores = new Map<string, JsonVectorStore>()
+
+export async function apply(
+    ctx: Context,
+    config: Config,
+    plugin: ChatLunaPlugin
+) {
+    logger = createLogger(ctx, 'chatluna-vector-store-service')
+
+    ctx.on('dispose', () => {
+        stores.clear()
+    })
+
+    await plugin.registerVectorStore('json', async (params) => {
+        const embeddings = params.embeddings
+
+        const directory = path.join(
+            'data/chathub/vector_store',
+            params.key ?? 'chatluna'
+        )
+
+        const jsonFile = path.join(directory, 'vectors.json')
+
+        logger.debug(`Loading json store from %c`, directory)
+
+        // 在第一次使用时才读取文件
+        let store = stores.get(jsonFile)
+
+        if (store == null) {
+            store = new JsonVectorStore(embeddings, jsonFile)
+            stores.set(jsonFile, store)
+        } else {
+            store.embeddings = embeddings
+        }
+
+        const wrapperStore = new ChatLunaSaveableVectorStore<JsonVectorStore>(
+            store,
+            {
+                async saveableFunction(store) {
+                    await store.save()
+                },
+                async deletableFunction(store) {
+                    await store.clear()
+                }
+            }
+        )
+
+        return wrapperStore
+    })
+}
+
+type MemoryVector = MemoryVectorStore['memoryVectors'][number]
+
+interface JsonVectorStoreData {
+    version: number
+    vectors: MemoryVector[]
+}
+
+/**
+ * A vector store built on the memory vector store,
+ * which saves the vectors to a json file and loads them on first use.
+ */
+class JsonVectorStore extends MemoryVectorStore {
+    private _loadPromise: Promise<void> | undefined
+
+    // 按顺序写入文件，避免同时写入时互相覆盖
+    private _writePromise: Promise<void> = Promise.resolve()
+
+    constructor(
+        embeddings: EmbeddingsInterface,
+        private _file: string
+    ) {
+        super(embeddings)
+    }
+
+    _vectorstoreType(): string {
+        return 'json'
+    }
+
+    async addVectors(
+        vectors: number[][],
+        documents: Document[],
+        options?: { ids?: string[] }
+    ): Promise<void> {
+        await this._load()
+
+        // 为文档生成 id，以便按 id 删除
+        const ids =
+            options?.ids ??
+            documents.map((document) => document.id ?? randomUUID())
+
+        await super.addVectors(
+            vectors,
+            documents.map(
+                (document, index) =>
+                    new Document({
+                        pageContent: document.pageContent,
+                        metadata: document.metadata,
+                        id: ids[index]
+                    })
+            )
+        )
+    }
+
+    protected async _queryVectors(
+        query: number[],
+        k: number,
+        filter?: this['FilterType']
+    ) {
+        await this._load()
+
+        return super._queryVectors(query, k, filter)
+    }
+
+    async delete(params: {
+        ids?: string[]
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        metadata?: Record<string, any>
+    }): Promise<void> {
+        await this._load()
+
+        const ids = new Set(params.ids ?? [])
+        const metadata = Object.entries(params.metadata ?? {})
+
+        this.memoryVectors = this.memoryVectors.filter((vector) => {
+            if (vector.id != null && ids.has(vector.id)) {
+                return false
+            }
+
+            return (
+                metadata.length < 1 ||
+                metadata.some(
+                    ([key, value]) => vector.metadata?.[key] !== value
+                )
+            )
+        })
+
+        await this.save()
+    }
+
+    async save() {
+        // 没有读取过文件时，数据没有变化
+        if (this._loadPromise == null) {
+            return
+        }
+
+        await this._loadPromise
+
+        await this._queueWrite(() => this._saveToFile())
+    }
+
+    async clear() {
+        this.memoryVectors = []
+        this._loadPromise = Promise.resolve()
+
+        await this._queueWrite(() => fs.rm(this._file, { force: true }))
+    }
+
+    private _queueWrite(write: () => Promise<void>) {
+        const result = this._writePromise.then(write)
+
+        // 写入失败时不影响之后的写入
+        this._writePromise = result.catch(() => {})
+
+        return result
+    }
+
+    private async _saveToFile() {
+        const data: JsonVectorStoreData = {
+            version: 1,
+            vectors: this.memoryVectors
+        }
+
+        await fs.mkdir(path.dirname(this._file), { recursive: true })
+
+        // 先写入临时文件，避免写入中断时损坏原文件
+        const tempFile = this._file + '.tmp'
+
+        await fs.writeFile(tempFile, JSON.stringify(data))
+        await fs.rename(tempFile, this._file)
+    }
+
+    private _load() {
+        this._loadPromise ??= this._loadFromFile()
+
+        return this._loadPromise
+    }
+
+    private async _loadFromFile() {
+        let content: string
+
+        try {
+            content = await fs.readFile(this._file, 'utf-8')
+        } catch (e) {
+            if (e.code !== 'ENOENT') {
+                logger.error(e)
+            }
+            return
+        }
+
+        try {
+            const data = JSON.parse(content) as JsonVectorStoreData
+
+            this.memoryVectors = data.vectors ?? []
+        } catch (e) {
+            logger.error(`Failed to load json store from ${this._file}`, e)
+        }
+    }
+}
@@ -124,9 +124,23 @@ export class WenxinRequester
                         messageChunk.content = content
                     }
 
+                    // 每个 chunk 都会带上截至目前的用量
                     const generationChunk = new ChatGenerationChunk({
                         message: messageChunk,
-                        text: messageChunk.content as string
+                        text: messageChunk.content as string,
+                        generationInfo:
+                            message.usage != null
+                                ? {
+                                      tokenUsage: {
+                                          promptTokens:
+                                              message.usage.prompt_tokens,
+                                          completionTokens:
+                                              message.usage.completion_tokens,
+                                          totalTokens:
+                                              message.usage.total_tokens
+                                      }
+                                  }
+                                : undefined
                     })
 
                     yield generationChunk
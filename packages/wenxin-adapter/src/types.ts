@@ -18,9 +18,9 @@ export interface WenxinMessage {
  * Interface representing the usage of tokens in a chat completion.
  */
 export interface TokenUsage {
-    completionTokens?: number
-    promptTokens?: number
-    totalTokens?: number
+    completion_tokens?: number
+    prompt_tokens?: number
+    total_tokens?: number
 }
 
 /**
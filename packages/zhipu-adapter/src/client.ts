@@ -59,6 +59,7 @@ export class ZhipuClient extends PlatformModelAndEmbeddingsClient<ZhipuClientCon
                 return {
                     name: model,
                     functionCall: model !== 'GLM-4V',
+                    imageInput: model === 'GLM-4V',
                     type: ModelType.llm,
                     supportMode: ['all'],
                     maxTokens
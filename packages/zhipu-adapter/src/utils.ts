@@ -52,7 +52,8 @@ export function langchainMessageToZhipuMessage(
 
         const images = rawMessage.additional_kwargs.images as string[] | null
 
-        if (model.includes('glm-4v') && images != null) {
+        // 模型是否支持图片由 ModelInfo.imageInput 决定，不支持时图片已被移除
+        if (images != null) {
             msg.content = [
                 {
                     type: 'text',
@@ -60,13 +61,12 @@ export function langchainMessageToZhipuMessage(
                 }
             ]
 
-            // base 64??
             for (const image of images) {
                 msg.content.push({
                     type: 'image_url',
                     image_url: {
-                        url: image
-                        // detail: 'low'
+                        // 智谱只接受不带前缀的 base64
+                        url: image.replace(/^data:image\/\w+;base64,/, '')
                     }
                 })
             }